@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+import { program } from 'commander';
+import { API_KEY_HEADER } from './lib/flags.js';
+import {
+  CREDENTIAL_HELPER_BIN,
+  KeyName,
+  eraseKeyringKey,
+  getDefaultCredentialsFile,
+  getDefaultKeyringDir,
+  isShared,
+  resolveApiKey,
+  storeKeyringKey,
+  type ResolvedKey
+} from './lib/credentials.js';
+
+// Implements https://github.com/EngFlow/credential-helper-spec, which Bazel calls as
+// `<helper> get` with {"uri": ...} on stdin and reads {"headers": ...} from stdout.
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function fail(message: string): never {
+  console.error(`${CREDENTIAL_HELPER_BIN}: ${message}`);
+  process.exit(1);
+}
+
+function parseKeyName(name: string): KeyName {
+  const result = KeyName.safeParse(name);
+  if (!result.success) fail(`unknown key "${name}", expected one of: ${KeyName.options.join(', ')}`);
+  return result.data;
+}
+
+program
+  .name(CREDENTIAL_HELPER_BIN)
+  .description('Bazel credential helper for Nativelink. Register it with --credential_helper=*.nativelink.net=nativelink-credential-helper')
+  .option('--credentials-file <path>', 'Credentials file (default: $XDG_CONFIG_HOME/nativelink-mcp/credentials.json)')
+  .option('--keyring-dir <path>', 'Keyring store directory (default: $XDG_DATA_HOME/nativelink-mcp/keyring)');
+
+program
+  .command('get')
+  .description('Print the API key header for the {"uri": ...} request on stdin')
+  .action(async () => {
+    const options = program.opts();
+    let uri: string;
+    try {
+      uri = JSON.parse(await readStdin()).uri;
+      new URL(uri);
+    } catch {
+      fail('expected a JSON request like {"uri": "https://cas-....nativelink.net"} on stdin');
+    }
+
+    const credentialsFile = options.credentialsFile || getDefaultCredentialsFile();
+    let resolved: ResolvedKey | undefined;
+    try {
+      resolved = resolveApiKey(uri, { credentialsFile, keyringDir: options.keyringDir });
+    } catch (error) {
+      fail((error as Error).message);
+    }
+    if (!resolved) {
+      fail(`no API key for ${new URL(uri).hostname}. Set NATIVELINK_API_KEY, add it to ${credentialsFile}, or run \`${CREDENTIAL_HELPER_BIN} store default\``);
+    }
+    if (resolved.source === 'file' && isShared(credentialsFile)) {
+      console.error(`${CREDENTIAL_HELPER_BIN}: warning: ${credentialsFile} is readable by other users; run chmod 600 on it`);
+    }
+
+    process.stdout.write(JSON.stringify({ headers: { [API_KEY_HEADER]: [resolved.key] } }) + '\n');
+  });
+
+program
+  .command('store <key>')
+  .description(`Save the API key on stdin in the keyring store as ${KeyName.options.join(', ')}`)
+  .action(async (name: string) => {
+    const keyName = parseKeyName(name);
+    const key = (await readStdin()).trim();
+    if (!key) fail('expected the API key on stdin');
+    const file = storeKeyringKey(program.opts().keyringDir || getDefaultKeyringDir(), keyName, key);
+    console.error(`Saved the ${keyName} key to ${file}`);
+  });
+
+program
+  .command('erase <key>')
+  .description('Remove a key from the keyring store')
+  .action((name: string) => {
+    const keyName = parseKeyName(name);
+    eraseKeyringKey(program.opts().keyringDir || getDefaultKeyringDir(), keyName);
+  });
+
+await program.parseAsync();
\ No newline at end of file
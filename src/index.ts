@@ -2,32 +2,51 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ErrorCode,
-  McpError
+  isInitializeRequest
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { program } from 'commander';
-import { createServer } from 'http';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
 
 import { NativelinkAPI } from './lib/api.js';
-import { parseApiKey } from './lib/utils.js';
+import { NativelinkApiError, createMcpError } from './lib/errors.js';
+import { MetricsHistory } from './lib/history.js';
+import { parseApiKey, redactSecrets } from './lib/utils.js';
+import { toToolInputSchema, type ToolInputSchema } from './lib/json-schema.js';
+import {
+  applyProfileDefaults,
+  getProfile,
+  getProfileConfig,
+  getProfileSecrets,
+  loadConfigFile,
+  type Profile
+} from './lib/profiles.js';
 import type { NativelinkConfig } from './lib/types.js';
 
-import { generateBazelConfig, GetBazelConfigSchema } from './tools/config.js';
-import { getNativelinkDocs, GetNativelinkDocsSchema } from './tools/docs.js';
-import { analyzeBuildPerformance, AnalyzeBuildPerformanceSchema } from './tools/performance.js';
-import { generateDeploymentConfig, GenerateDeploymentConfigSchema } from './tools/deployment.js';
-import { setupWatchAndBuild, SetupWatchAndBuildSchema } from './tools/watch.js';
+import { TOOLS, findTool } from './tools/index.js';
+import { listDocResources, readDocResource } from './resources/index.js';
+import { PROMPTS, findPrompt, toPromptArguments } from './prompts/index.js';
 
 const CONFIG: NativelinkConfig = {
   apiKey: process.env.NATIVELINK_API_KEY,
   anthropicKey: process.env.ANTHROPIC_API_KEY,
   geminiKey: process.env.GEMINI_API_KEY,
   nativelinkUrl: process.env.NATIVELINK_URL,
-  debug: process.env.DEBUG === 'true'
+  cacheDir: process.env.NATIVELINK_CACHE_DIR,
+  historyFile: process.env.NATIVELINK_HISTORY_FILE,
+  docsTtlSeconds: process.env.NATIVELINK_DOCS_TTL ? parseInt(process.env.NATIVELINK_DOCS_TTL) : undefined,
+  debug: process.env.DEBUG !== undefined ? process.env.DEBUG === 'true' : undefined
 };
 
 program
@@ -35,22 +54,69 @@ program
   .description('Nativelink MCP Server - High-performance build cache and remote execution')
   .option('--transport <type>', 'Transport type (stdio or http)', 'stdio')
   .option('--port <number>', 'Port for HTTP transport', '3000')
+  .option('--allowed-hosts <hosts>', 'Comma-separated Host headers the HTTP transport accepts besides localhost, with the port, e.g. mcp.example.com:8080')
+  .option('--allowed-origins <origins>', 'Comma-separated browser origins allowed to call the HTTP transport (default: none)')
   .option('--api-key <key>', 'Nativelink API key')
   .option('--anthropic-key <key>', 'Anthropic API key for enhanced features')
   .option('--gemini-key <key>', 'Gemini API key for enhanced features')
   .option('--nativelink-url <url>', 'Nativelink API URL')
-  .action((options) => {
+  .option('--timeout <ms>', 'Timeout for each Nativelink API request (default: 10000)')
+  .option('--max-retries <n>', 'Retries for failed or rate-limited API requests (default: 3)')
+  .option('--api-version <version>', 'Nativelink API version to request (default: 1)')
+  .option('--api-version-in-path', 'Send the API version as a /v<version> path prefix as well as the X-API-Version header')
+  .option('--cache-dir <path>', 'Directory for cached docs (default: $XDG_CACHE_HOME/nativelink-mcp)')
+  .option('--docs-ttl <seconds>', 'How long cached docs are served without revalidation (default: 86400)')
+  .option('--no-stale-while-revalidate', 'Revalidate stale docs before answering instead of in the background')
+  .option('--history-file <path>', 'JSONL file for build metrics history (default: $XDG_DATA_HOME/nativelink-mcp/history.jsonl)')
+  .option('--record-history', 'Record every analyze-build-performance call in the metrics history')
+  .option('--config <path>', 'Config file with profiles (default: $XDG_CONFIG_HOME/nativelink-mcp/config.json or config.toml)')
+  .option('--profile <name>', 'Profile from the config file to use (default: its defaultProfile)')
+  .action((options, command) => {
     if (options.apiKey) CONFIG.apiKey = options.apiKey;
     if (options.anthropicKey) CONFIG.anthropicKey = options.anthropicKey;
     if (options.geminiKey) CONFIG.geminiKey = options.geminiKey;
     if (options.nativelinkUrl) CONFIG.nativelinkUrl = options.nativelinkUrl;
+    if (options.timeout) CONFIG.timeoutMs = parseInt(options.timeout);
+    if (options.maxRetries) CONFIG.maxRetries = parseInt(options.maxRetries);
+    if (options.apiVersion) CONFIG.apiVersion = options.apiVersion;
+    if (options.apiVersionInPath) CONFIG.apiVersionInPath = true;
+    if (options.cacheDir) CONFIG.cacheDir = options.cacheDir;
+    if (options.docsTtl) CONFIG.docsTtlSeconds = parseInt(options.docsTtl);
+    // The flag always has a value; only one given on the command line overrides the profile.
+    if (command.getOptionValueSource('staleWhileRevalidate') === 'cli') CONFIG.staleWhileRevalidate = options.staleWhileRevalidate;
+    if (options.historyFile) CONFIG.historyFile = options.historyFile;
+    if (options.recordHistory) CONFIG.recordHistory = true;
   });
 
 program.parse();
 
 const options = program.opts();
 
-async function createNativelinkServer(config: NativelinkConfig) {
+// The selected profile fills in what env vars and flags leave unset.
+try {
+  CONFIG.configFile = loadConfigFile(options.config || process.env.NATIVELINK_CONFIG_FILE);
+  CONFIG.profile = options.profile || process.env.NATIVELINK_PROFILE || CONFIG.configFile?.config.defaultProfile;
+  if (CONFIG.profile) {
+    if (!CONFIG.configFile) {
+      throw new Error(`Profile "${CONFIG.profile}" was requested, but no config file was found in $XDG_CONFIG_HOME/nativelink-mcp`);
+    }
+    const explicit = Object.fromEntries(Object.entries(CONFIG).filter(([, value]) => value !== undefined));
+    Object.assign(CONFIG, getProfileConfig(getProfile(CONFIG.configFile, CONFIG.profile)), explicit);
+  }
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+interface ServerOptions {
+  /**
+   * Whether a profile named in a tool call brings its own API keys. Off for HTTP
+   * sessions, whose clients must not use the keys in the operator's config file.
+   */
+  profileKeys: boolean;
+}
+
+async function createNativelinkServer(config: NativelinkConfig, serverOptions: ServerOptions) {
   const server = new Server(
     {
       name: 'nativelink-mcp',
@@ -58,237 +124,169 @@ async function createNativelinkServer(config: NativelinkConfig) {
     },
     {
       capabilities: {
-        tools: {}
+        tools: {},
+        resources: {},
+        prompts: {}
       }
     }
   );
 
   const api = new NativelinkAPI(config);
+  const history = new MetricsHistory(config.historyFile, config.recordHistory);
+  const secrets = [config.apiKey, config.anthropicKey, config.geminiKey, ...getProfileSecrets(config.configFile)];
+  const profileNames = Object.keys(config.configFile?.config.profiles || {});
+
+  // A profile named in a tool call replaces the server's API settings for that call,
+  // except for its keys when serverOptions.profileKeys is off.
+  const profileApis = new Map<string, NativelinkAPI>();
+  const useProfile = (name: string | undefined): { api: NativelinkAPI; profile?: Profile } => {
+    if (name === undefined || name === config.profile) {
+      return { api, profile: config.configFile && config.profile ? getProfile(config.configFile, config.profile) : undefined };
+    }
+    if (!config.configFile) {
+      throw new Error(`Profile "${name}" was requested, but the server has no config file`);
+    }
+    const profile = getProfile(config.configFile, name);
+    let profileApi = profileApis.get(name);
+    if (!profileApi) {
+      profileApi = new NativelinkAPI({ ...config, ...getProfileConfig(profile, serverOptions.profileKeys) });
+      profileApis.set(name, profileApi);
+    }
+    return { api: profileApi, profile };
+  };
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
-      {
-        name: 'get-bazel-config',
-        description: 'Generate optimal Bazel configuration for Nativelink',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            projectType: {
-              type: 'string',
-              enum: ['rust', 'cpp', 'java', 'python', 'go', 'mixed'],
-              description: 'Type of project'
-            },
-            nativelinkUrl: {
-              type: 'string',
-              description: 'Nativelink server URL (defaults to cloud)'
-            },
-            features: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Features to enable: remote_cache, remote_execution, metrics'
-            }
-          },
-          required: ['projectType']
-        }
-      },
-      {
-        name: 'get-nativelink-docs',
-        description: 'Fetch Nativelink documentation and best practices',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            topic: {
-              type: 'string',
-              enum: ['setup', 'migration', 'optimization', 'troubleshooting', 'api'],
-              description: 'Documentation topic'
-            },
-            context: {
-              type: 'string',
-              description: 'Additional context or specific question'
-            },
-            maxTokens: {
-              type: 'number',
-              description: 'Maximum tokens to return (min 1000, default 5000)'
-            }
-          },
-          required: ['topic']
-        }
-      },
-      {
-        name: 'analyze-build-performance',
-        description: 'Analyze build performance and provide optimization recommendations',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            profileData: {
-              type: 'string',
-              description: 'Bazel profile JSON data'
-            },
-            metrics: {
-              type: 'object',
-              properties: {
-                totalTime: { type: 'number', description: 'Total build time in seconds' },
-                cacheHitRate: { type: 'number', description: 'Cache hit rate (0-1)' },
-                remoteExecutionTime: { type: 'number', description: 'Remote execution time in seconds' },
-                localExecutionTime: { type: 'number', description: 'Local execution time in seconds' },
-                networkTransferSize: { type: 'number', description: 'Network transfer size in bytes' }
-              },
-              description: 'Build metrics'
-            },
-            targetOptimization: {
-              type: 'string',
-              enum: ['speed', 'cost', 'balanced'],
-              description: 'Optimization target'
-            }
-          }
-        }
-      },
-      {
-        name: 'generate-deployment-config',
-        description: 'Generate deployment configuration for Nativelink',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            platform: {
-              type: 'string',
-              enum: ['kubernetes', 'docker', 'aws', 'gcp', 'azure'],
-              description: 'Deployment platform'
-            },
-            scale: {
-              type: 'string',
-              enum: ['small', 'medium', 'large', 'enterprise'],
-              description: 'Deployment scale'
-            },
-            features: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Features to enable: monitoring, autoscaling, high_availability'
-            }
-          },
-          required: ['platform', 'scale']
-        }
-      },
-      {
-        name: 'setup-watch-and-build',
-        description: 'Set up automatic Bazel builds and tests on file changes with Nativelink',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            command: {
-              type: 'string',
-              enum: ['build', 'test', 'both'],
-              description: 'What to run on file changes (default: both)'
-            },
-            targets: {
-              type: 'string',
-              description: 'Bazel targets to build/test (default: //...)'
-            },
-            watchPaths: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Paths/patterns to watch for changes'
-            },
-            excludePaths: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Paths/patterns to exclude from watching'
-            },
-            debounceMs: {
-              type: 'number',
-              description: 'Milliseconds to wait before rebuilding (100-10000, default: 1000)'
-            },
-            useIbazel: {
-              type: 'boolean',
-              description: 'Use iBazel for intelligent watching (recommended)'
-            }
-          }
-        }
-      }
-    ]
+    tools: TOOLS.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: withProfileArgument(toToolInputSchema(tool.schema), profileNames),
+      ...(tool.outputSchema && { outputSchema: toToolInputSchema(tool.outputSchema) })
+    }))
   }));
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    try {
-      const { name, arguments: args } = request.params;
-
-      switch (name) {
-        case 'get-bazel-config': {
-          const params = GetBazelConfigSchema.parse(args);
-          const config = generateBazelConfig(params);
-          return {
-            content: [{
-              type: 'text',
-              text: config
-            }]
-          };
-        }
-
-        case 'get-nativelink-docs': {
-          const params = GetNativelinkDocsSchema.parse(args);
-          const docs = await getNativelinkDocs(params, api);
-          return {
-            content: [{
-              type: 'text',
-              text: docs
-            }]
-          };
-        }
-
-        case 'analyze-build-performance': {
-          const params = AnalyzeBuildPerformanceSchema.parse(args);
-          const analysis = await analyzeBuildPerformance(params, api);
-          return {
-            content: [{
-              type: 'text',
-              text: analysis
-            }]
-          };
-        }
-
-        case 'generate-deployment-config': {
-          const params = GenerateDeploymentConfigSchema.parse(args);
-          const deployment = generateDeploymentConfig(params);
-          return {
-            content: [{
-              type: 'text',
-              text: deployment
-            }]
-          };
-        }
+    const { name, arguments: args } = request.params;
+
+    const tool = findTool(name);
+    if (!tool) {
+      throw createMcpError(
+        ErrorCode.MethodNotFound,
+        `Tool not found: ${name}`
+      );
+    }
 
-        case 'setup-watch-and-build': {
-          const params = SetupWatchAndBuildSchema.parse(args);
-          const watchConfig = setupWatchAndBuild(params);
-          return {
-            content: [{
-              type: 'text',
-              text: watchConfig
-            }]
-          };
-        }
+    const { profile: profileName, ...toolArgs } = args || {};
+    if (profileName !== undefined && typeof profileName !== 'string') {
+      throw createMcpError(ErrorCode.InvalidParams, 'Invalid parameters: profile: Expected string');
+    }
+    let selected: ReturnType<typeof useProfile>;
+    try {
+      selected = useProfile(profileName);
+    } catch (error) {
+      throw createMcpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
 
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Tool not found: ${name}`
-          );
-      }
+    try {
+      const accepted = Object.keys(toToolInputSchema(tool.schema).properties as object);
+      const params = tool.schema.parse(selected.profile ? applyProfileDefaults(toolArgs, selected.profile, accepted) : toolArgs);
+      const result = await tool.handler(params, { api: selected.api, history });
+      const { text, structuredContent } = redactSecrets(
+        typeof result === 'string' ? { text: result, structuredContent: undefined } : result,
+        secrets
+      );
+      return {
+        content: [{
+          type: 'text',
+          text
+        }],
+        ...(structuredContent && { structuredContent })
+      };
     } catch (error) {
       if (error instanceof z.ZodError) {
-        throw new McpError(
+        throw createMcpError(
           ErrorCode.InvalidParams,
           `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
         );
       }
+      if (error instanceof NativelinkApiError) {
+        throw error.toMcpError();
+      }
       throw error;
     }
   });
 
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listDocResources()
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const contents = await readDocResource(request.params.uri, api);
+    if (!contents) {
+      throw createMcpError(
+        ErrorCode.InvalidParams,
+        `Resource not found: ${request.params.uri}`
+      );
+    }
+    return { contents: [contents] };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(prompt => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: toPromptArguments(prompt.schema)
+    }))
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    const prompt = findPrompt(name);
+    if (!prompt) {
+      throw createMcpError(
+        ErrorCode.InvalidParams,
+        `Prompt not found: ${name}`
+      );
+    }
+
+    const parsed = prompt.schema.safeParse(args || {});
+    if (!parsed.success) {
+      throw createMcpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+      );
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: prompt.build(parsed.data)
+        }
+      }]
+    };
+  });
+
   return server;
 }
 
+// Only servers started with a config file advertise the profile argument.
+function withProfileArgument(schema: ToolInputSchema, profiles: string[]): ToolInputSchema {
+  if (profiles.length === 0) return schema;
+  return {
+    ...schema,
+    properties: {
+      ...(schema.properties as object),
+      profile: { type: 'string', enum: profiles, description: 'Config file profile for this call: its API key, endpoints and defaults (default: the server\'s profile)' }
+    }
+  };
+}
+
 async function startStdioServer() {
-  const server = await createNativelinkServer(CONFIG);
+  const server = await createNativelinkServer(CONFIG, { profileKeys: true });
   const transport = new StdioServerTransport();
 
   await server.connect(transport);
@@ -299,16 +297,51 @@ async function startStdioServer() {
   });
 }
 
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  apiKey?: string;
+}
+
 async function startHttpServer() {
   const port = parseInt(options.port) || 3000;
-
-  // Create a single server instance
-  const server = await createNativelinkServer(CONFIG);
+  const sessions = new Map<string, HttpSession>();
+
+  // Against DNS rebinding, only local Host headers are accepted unless more are listed, and
+  // browsers only get CORS access from listed origins.
+  const allowedHosts = [
+    ...['localhost', '127.0.0.1', '[::1]'].map(host => `${host}:${port}`),
+    ...splitList(options.allowedHosts)
+  ];
+  const allowedOrigins = splitList(options.allowedOrigins);
+  const rebindingProtection = { enableDnsRebindingProtection: true, allowedHosts };
+
+  // Every session gets its own Server (the SDK binds one transport per Server), built by
+  // the same factory as stdio and configured with the API key the client connected with.
+  const openSession = async (transport: HttpSession['transport'], apiKey: string | undefined) => {
+    const server = await createNativelinkServer({ ...CONFIG, apiKey: apiKey || CONFIG.apiKey }, { profileKeys: false });
+    await server.connect(transport);
+    return server;
+  };
 
   const httpServer = createServer(async (req, res) => {
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', '*');
+    // The SDK checks the Host header for /mcp and /messages only; /sse is covered here too.
+    if (!allowedHosts.includes(req.headers.host || '')) {
+      sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${req.headers.host}`);
+      return;
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+      sendJsonRpcError(res, 403, -32000, `Origin not allowed: ${origin} (see --allowed-origins)`);
+      return;
+    }
+    if (origin !== undefined) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', '*');
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
 
     if (req.method === 'OPTIONS') {
       res.writeHead(204);
@@ -316,260 +349,142 @@ async function startHttpServer() {
       return;
     }
 
-    if (req.url === '/ping') {
-      res.writeHead(200, { 'Content-Type': 'text/plain' });
-      res.end('pong');
-      return;
-    }
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const apiKey = parseApiKey(req.headers as Record<string, string | string[] | undefined>);
 
-    if (req.url === '/mcp' && req.method === 'POST') {
-      let body = '';
-      req.on('data', chunk => { body += chunk; });
-      req.on('end', async () => {
-        try {
-          const request = JSON.parse(body);
-
-          // Simple direct handling for the HTTP transport
-          let response: any = {};
-
-          if (request.method === 'tools/list') {
-            // Return the tools list directly
-            response = {
-              tools: [
-                {
-                  name: 'get-bazel-config',
-                  description: 'Generate optimal Bazel configuration for Nativelink',
-                  inputSchema: {
-                    type: 'object',
-                    properties: {
-                      projectType: {
-                        type: 'string',
-                        enum: ['rust', 'cpp', 'java', 'python', 'go', 'mixed'],
-                        description: 'Type of project'
-                      },
-                      nativelinkUrl: {
-                        type: 'string',
-                        description: 'Nativelink server URL (defaults to cloud)'
-                      },
-                      features: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Features to enable: remote_cache, remote_execution, metrics'
-                      }
-                    },
-                    required: ['projectType']
-                  }
-                },
-                {
-                  name: 'get-nativelink-docs',
-                  description: 'Fetch Nativelink documentation and best practices',
-                  inputSchema: {
-                    type: 'object',
-                    properties: {
-                      topic: {
-                        type: 'string',
-                        enum: ['setup', 'migration', 'optimization', 'troubleshooting', 'api'],
-                        description: 'Documentation topic'
-                      },
-                      context: {
-                        type: 'string',
-                        description: 'Additional context or specific question'
-                      },
-                      maxTokens: {
-                        type: 'number',
-                        description: 'Maximum tokens to return (min 1000, default 5000)'
-                      }
-                    },
-                    required: ['topic']
-                  }
-                },
-                {
-                  name: 'analyze-build-performance',
-                  description: 'Analyze build performance and provide optimization recommendations',
-                  inputSchema: {
-                    type: 'object',
-                    properties: {
-                      profileData: {
-                        type: 'string',
-                        description: 'Bazel profile JSON data'
-                      },
-                      metrics: {
-                        type: 'object',
-                        properties: {
-                          totalTime: { type: 'number', description: 'Total build time in seconds' },
-                          cacheHitRate: { type: 'number', description: 'Cache hit rate (0-1)' },
-                          remoteExecutionTime: { type: 'number', description: 'Remote execution time in seconds' },
-                          localExecutionTime: { type: 'number', description: 'Local execution time in seconds' },
-                          networkTransferSize: { type: 'number', description: 'Network transfer size in bytes' }
-                        },
-                        description: 'Build metrics'
-                      },
-                      targetOptimization: {
-                        type: 'string',
-                        enum: ['speed', 'cost', 'balanced'],
-                        description: 'Optimization target'
-                      }
-                    }
-                  }
-                },
-                {
-                  name: 'generate-deployment-config',
-                  description: 'Generate deployment configuration for Nativelink',
-                  inputSchema: {
-                    type: 'object',
-                    properties: {
-                      platform: {
-                        type: 'string',
-                        enum: ['kubernetes', 'docker', 'aws', 'gcp', 'azure'],
-                        description: 'Deployment platform'
-                      },
-                      scale: {
-                        type: 'string',
-                        enum: ['small', 'medium', 'large', 'enterprise'],
-                        description: 'Deployment scale'
-                      },
-                      features: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Features to enable: monitoring, autoscaling, high_availability'
-                      }
-                    },
-                    required: ['platform', 'scale']
-                  }
-                },
-                {
-                  name: 'setup-watch-and-build',
-                  description: 'Set up automatic Bazel builds and tests on file changes with Nativelink',
-                  inputSchema: {
-                    type: 'object',
-                    properties: {
-                      command: {
-                        type: 'string',
-                        enum: ['build', 'test', 'both'],
-                        description: 'What to run on file changes (default: both)'
-                      },
-                      targets: {
-                        type: 'string',
-                        description: 'Bazel targets to build/test (default: //...)'
-                      },
-                      watchPaths: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Paths/patterns to watch for changes'
-                      },
-                      excludePaths: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Paths/patterns to exclude from watching'
-                      },
-                      debounceMs: {
-                        type: 'number',
-                        description: 'Milliseconds to wait before rebuilding (100-10000, default: 1000)'
-                      },
-                      useIbazel: {
-                        type: 'boolean',
-                        description: 'Use iBazel for intelligent watching (recommended)'
-                      }
-                    }
-                  }
-                }
-              ]
-            };
-          } else if (request.method === 'tools/call') {
-            // Parse the API key from headers if provided
-            const apiKey = parseApiKey(req.headers as Record<string, string | string[] | undefined>);
-            const api = new NativelinkAPI({ ...CONFIG, apiKey: apiKey || CONFIG.apiKey });
-
-            const toolName = request.params?.name;
-            const args = request.params?.arguments || {};
-
-            try {
-              let content: string = '';
-
-              switch (toolName) {
-                case 'get-bazel-config': {
-                  const params = GetBazelConfigSchema.parse(args);
-                  content = generateBazelConfig(params);
-                  break;
-                }
-                case 'get-nativelink-docs': {
-                  const params = GetNativelinkDocsSchema.parse(args);
-                  content = await getNativelinkDocs(params, api);
-                  break;
-                }
-                case 'analyze-build-performance': {
-                  const params = AnalyzeBuildPerformanceSchema.parse(args);
-                  content = await analyzeBuildPerformance(params, api);
-                  break;
-                }
-                case 'generate-deployment-config': {
-                  const params = GenerateDeploymentConfigSchema.parse(args);
-                  content = generateDeploymentConfig(params);
-                  break;
-                }
-                case 'setup-watch-and-build': {
-                  const params = SetupWatchAndBuildSchema.parse(args);
-                  content = setupWatchAndBuild(params);
-                  break;
-                }
-                default:
-                  throw new Error(`Unknown tool: ${toolName}`);
-              }
-
-              response = {
-                content: [{
-                  type: 'text',
-                  text: content
-                }]
-              };
-            } catch (error) {
-              if (error instanceof z.ZodError) {
-                response = {
-                  error: {
-                    code: 'InvalidParams',
-                    message: `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-                  }
-                };
-              } else {
-                response = {
-                  error: {
-                    code: 'InternalError',
-                    message: error instanceof Error ? error.message : 'Unknown error'
-                  }
-                };
-              }
-            }
-          } else {
-            res.writeHead(404, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Method not found' }));
+    try {
+      if (url.pathname === '/ping') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('pong');
+        return;
+      }
+
+      // Streamable HTTP (MCP 2025-03-26 and later)
+      if (url.pathname === '/mcp') {
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        const sessionId = req.headers['mcp-session-id'];
+
+        if (typeof sessionId === 'string') {
+          const session = sessions.get(sessionId);
+          if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+            sendJsonRpcError(res, 404, -32001, 'Session not found');
             return;
           }
+          if (!checkSessionKey(res, session, apiKey)) return;
+          await session.transport.handleRequest(req, res, body);
+          return;
+        }
 
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify(response));
-        } catch (error) {
-          console.error('Error handling request:', error);
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Internal server error' }));
+        const initialize = Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+        if (req.method !== 'POST' || !initialize) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header (send initialize first)');
+          return;
         }
-      });
-    } else {
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          ...rebindingProtection,
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: id => {
+            sessions.set(id, { transport, server, apiKey });
+          }
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+
+        const server = await openSession(transport, apiKey);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      // Legacy HTTP+SSE transport (MCP 2024-11-05)
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        const transport = new SSEServerTransport('/messages', res, rebindingProtection);
+        const server = await openSession(transport, apiKey);
+        sessions.set(transport.sessionId, { transport, server, apiKey });
+        res.on('close', () => {
+          sessions.delete(transport.sessionId);
+        });
+        return;
+      }
+
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        const session = sessions.get(url.searchParams.get('sessionId') || '');
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        if (!checkSessionKey(res, session, apiKey)) return;
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
       res.writeHead(404, { 'Content-Type': 'text/plain' });
       res.end('Not found');
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, ErrorCode.ParseError, 'Parse error: request body is not valid JSON');
+        return;
+      }
+      console.error('Error handling request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+      }
     }
   });
 
   httpServer.listen(port, () => {
     console.log(`Nativelink MCP server listening on port ${port}`);
-    console.log(`Endpoint: http://localhost:${port}/mcp`);
+    console.log(`Streamable HTTP endpoint: http://localhost:${port}/mcp`);
+    console.log(`Legacy SSE endpoint: http://localhost:${port}/sse`);
   });
 
-  process.on('SIGINT', () => {
+  process.on('SIGINT', async () => {
+    for (const session of sessions.values()) {
+      await session.transport.close();
+    }
     httpServer.close();
     process.exit(0);
   });
 }
 
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// A session opened with a key only takes requests that send the same key; the session id alone is not enough.
+function checkSessionKey(res: ServerResponse, session: HttpSession, apiKey: string | undefined): boolean {
+  if (session.apiKey !== undefined && apiKey === undefined) {
+    sendJsonRpcError(res, 401, -32000, 'This session was created with an API key; send it with every request');
+    return false;
+  }
+  if (apiKey !== session.apiKey) {
+    sendJsonRpcError(res, 403, -32000, 'API key does not match the one this session was created with');
+    return false;
+  }
+  return true;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
 if (options.transport === 'http') {
   startHttpServer().catch(console.error);
 } else {
@@ -1,257 +1,226 @@
-import { fetch } from 'undici';
-import type { NativelinkConfig } from './types.js';
+import {
+  PerformanceScore,
+  type BuildMetrics,
+  type DocsTopic,
+  type NativelinkConfig,
+  type OptimizationTarget,
+  type PerformanceAnalysis,
+  type ProfileSummary,
+  type SuggestedFlag
+} from './types.js';
+import { OFFLINE_DOCS } from './docs-corpus.js';
+import { searchDocs } from './search.js';
+import { ApiClient } from './http.js';
+import { ApiNotFoundError } from './errors.js';
+import { scoreBuild, suggestFlags } from './scoring.js';
+import { spellFlag } from './flags.js';
+import { getDominantMnemonics } from './metrics.js';
+import { DocsCache, type DocsCacheEntry, type DocsCacheKey, type DocsResult } from './docs-cache.js';
+
+export interface AnalyzePerformanceOptions {
+  targetOptimization: OptimizationTarget;
+  bazelMajor: number;
+  profile?: ProfileSummary;
+}
+
+interface AnalyzeResponse {
+  analysis?: string;
+  score?: unknown;
+  suggestedConfig?: {
+    flags?: (string | { flag: string; rationale?: string })[];
+  };
+}
 
 export class NativelinkAPI {
   private config: NativelinkConfig;
   private baseUrl: string;
+  private client: ApiClient;
+  private docsCache: DocsCache;
+  private revalidating = new Map<string, Promise<unknown>>();
 
   constructor(config: NativelinkConfig) {
     this.config = config;
     this.baseUrl = config.nativelinkUrl || 'https://api.nativelink.com';
+    this.client = new ApiClient({
+      baseUrl: this.baseUrl,
+      apiKey: config.apiKey,
+      apiVersion: config.apiVersion,
+      versionInPath: config.apiVersionInPath,
+      timeoutMs: config.timeoutMs,
+      maxRetries: config.maxRetries
+    });
+    this.docsCache = new DocsCache(config.cacheDir, config.docsTtlSeconds);
   }
 
-  async fetchDocumentation(topic: string, context?: string): Promise<string> {
-    try {
-      const params = new URLSearchParams({
-        topic,
-        ...(context && { context })
-      });
+  /**
+   * Docs are served from the on-disk cache while it is fresh. A stale entry is
+   * revalidated with `If-None-Match`/`If-Modified-Since`, in the background when
+   * `staleWhileRevalidate` is on (the default). Without network, a stale entry beats
+   * the bundled offline docs. With `docsSource: 'bundled'` only the bundled docs are used.
+   */
+  async fetchDocumentation(topic: string, context?: string, version?: string): Promise<DocsResult> {
+    if (this.config.docsSource === 'bundled') {
+      return this.getOfflineDocumentation(topic, context);
+    }
 
-      const response = await fetch(`${this.baseUrl}/docs?${params}`, {
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json'
-        }
-      });
+    const key: DocsCacheKey = { baseUrl: this.baseUrl, topic, context, version };
+    const cached = this.docsCache.read(key);
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          return this.getOfflineDocumentation(topic, context);
-        }
-        throw new Error(`API request failed: ${response.statusText}`);
-      }
+    if (cached && this.docsCache.isFresh(cached)) {
+      return fromCache(cached, false);
+    }
+    if (cached && this.config.staleWhileRevalidate !== false) {
+      this.revalidateInBackground(key, cached);
+      return fromCache(cached, true);
+    }
 
-      const data = await response.json() as { content: string };
-      return data.content;
+    try {
+      return await this.requestDocumentation(key, cached);
     } catch (error) {
-      console.error('Error fetching documentation:', error);
-      return this.getOfflineDocumentation(topic, context);
+      this.debugLog('Error fetching documentation:', error);
+      return cached ? fromCache(cached, true) : this.getOfflineDocumentation(topic, context);
     }
   }
 
-  private getOfflineDocumentation(topic: string, context?: string): string {
-    const docs: Record<string, string> = {
-      setup: `# Nativelink Cloud Setup Guide
-
-## Quick Start with Nativelink Cloud
-
-1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
-   - Create your free account
-   - Get your API keys and personalized configuration
+  private async requestDocumentation(key: DocsCacheKey, cached?: DocsCacheEntry): Promise<DocsResult> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastUpdated) headers['If-Modified-Since'] = new Date(cached.lastUpdated).toUTCString();
 
-2. **Get your .bazelrc configuration**:
-   After signing up, you'll receive a personalized configuration like:
-   \`\`\`
-   build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
-   build --remote_header=x-nativelink-api-key=YOUR_API_KEY
-   build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
-   build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
-   build --bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build
-   build --remote_timeout=600
-   build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
-   \`\`\`
-
-3. **Add to your project**:
-   - Append the configuration to your \`.bazelrc\`
-   - Or create a \`.bazelrc.user\` file (gitignored)
-
-4. **Run your build**:
-   \`\`\`bash
-   bazel build //...
-   \`\`\`
-
-   Your builds will now use Nativelink Cloud for caching and remote execution!
-
-## Features
-- ⚡ Instant cache hits across your team
-- 🚀 Remote execution on powerful cloud machines
-- 📊 Build analytics and insights at app.nativelink.com
-- 🔒 Secure, isolated build environments`,
-
-      migration: `# Migration to Nativelink Cloud
-
-## From Local Builds
-
-1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
-
-2. **Baseline your current performance**:
-   \`\`\`bash
-   bazel build --profile=baseline.prof //...
-   \`\`\`
-
-3. **Add your Nativelink Cloud configuration**:
-   Get your personalized config from the dashboard and add to \`.bazelrc\`:
-   \`\`\`
-   # From app.nativelink.com dashboard
-   build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
-   build --remote_header=x-nativelink-api-key=YOUR_API_KEY
-   build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
-   build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
-   \`\`\`
-
-4. **Test with read-only cache first**:
-   \`\`\`
-   build --remote_upload_local_results=false
-   \`\`\`
-
-5. **Enable full caching and remote execution**:
-   \`\`\`
-   build --remote_upload_local_results=true
-   build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
-   \`\`\`
-
-## From Other Remote Caches
-
-Nativelink Cloud is compatible with standard Remote Execution API:
-1. Replace your cache endpoints with Nativelink Cloud URLs
-2. Update authentication to use Nativelink API keys
-3. No changes needed to BUILD files or rules`,
-
-      optimization: `# Nativelink Performance Optimization
-
-## Cache Optimization
-
-1. **Increase cache hit rate**:
-   - Use \`--experimental_strict_action_env\` for reproducible builds
-   - Set \`--incompatible_strict_action_env=true\`
-   - Configure proper toolchains
-
-2. **Network optimization**:
-   \`\`\`
-   build --remote_timeout=60
-   build --remote_retries=3
-   build --remote_max_connections=200
-   \`\`\`
-
-3. **Parallel execution**:
-   \`\`\`
-   build --jobs=auto
-   build --remote_executor=grpc://executor.nativelink.com:443
-   \`\`\`
-
-## Cost Optimization
-
-- Use \`--remote_download_minimal\` to reduce bandwidth
-- Enable compression: \`--experimental_remote_cache_compression\`
-- Set appropriate \`--remote_instance_name\` for isolation`,
-
-      troubleshooting: `# Nativelink Troubleshooting
-
-## Common Issues
-
-### Authentication Errors
-- Verify API key is set correctly
-- Check network connectivity
-- Ensure firewall allows gRPC traffic (port 443/50051)
-
-### Cache Misses
-- Check for non-hermetic actions
-- Verify toolchain configuration
-- Review \`--execution_log_json_file\` output
-
-### Slow Builds
-- Monitor with \`--experimental_remote_grpc_log\`
-- Check network latency to cache
-- Optimize large artifact handling
-
-### Debug Commands
-\`\`\`bash
-# Enable verbose logging
-bazel build --remote_grpc_log=grpc.log //...
-
-# Profile build performance
-bazel build --profile=profile.json --generate_json_trace_profile //...
-
-# Check cache status
-grpcurl -H "x-nativelink-api-key: YOUR_KEY" cache.nativelink.com:443 list
-\`\`\``,
-
-      api: `# Nativelink Cloud API Reference
+    let response;
+    try {
+      response = await this.client.request<{ content?: string; version?: string; lastUpdated?: string }>({
+        path: '/docs',
+        query: { topic: key.topic, context: key.context, version: key.version },
+        headers
+      });
+    } catch (error) {
+      if (error instanceof ApiNotFoundError) {
+        return this.getOfflineDocumentation(key.topic, key.context);
+      }
+      throw error;
+    }
 
-## Getting Your Configuration
+    if (response.status === 304 && cached) {
+      const entry = { ...cached, fetchedAt: new Date().toISOString() };
+      this.docsCache.write(key, entry);
+      return fromCache(entry, false);
+    }
 
-1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
-2. **Navigate to Dashboard > API Keys**
-3. **Copy your personalized .bazelrc configuration**
-
-## Your Personalized Configuration
-
-Your configuration from app.nativelink.com includes:
-
-### Cache Service
-\`\`\`
-build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
-build --remote_header=x-nativelink-api-key=YOUR_CACHE_API_KEY
-\`\`\`
+    const data = response.data;
+    if (typeof data?.content !== 'string') {
+      throw new Error('API response has no content');
+    }
 
-### Build Event Service (BES)
-\`\`\`
-build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
-build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
-build --bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build
-\`\`\`
+    const entry: DocsCacheEntry = {
+      content: data.content,
+      etag: response.headers.get('etag') || undefined,
+      lastUpdated: data.lastUpdated || response.headers.get('last-modified') || undefined,
+      version: data.version,
+      fetchedAt: new Date().toISOString()
+    };
+    this.docsCache.write(key, entry);
 
-### Remote Execution
-\`\`\`
-build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
-build --remote_timeout=600
-\`\`\`
+    return { ...fromCache(entry, false), source: 'live' };
+  }
 
-## Optional Optimizations
+  private revalidateInBackground(key: DocsCacheKey, cached: DocsCacheEntry): void {
+    const id = JSON.stringify(key);
+    if (this.revalidating.has(id)) return;
 
-Add these for better performance:
-\`\`\`
-build --remote_download_minimal
-build --experimental_remote_cache_compression
-build --jobs=200
-\`\`\`
+    const revalidation = this.requestDocumentation(key, cached)
+      .catch(error => this.debugLog('Error revalidating documentation:', error))
+      .finally(() => this.revalidating.delete(id));
+    this.revalidating.set(id, revalidation);
+  }
 
-## Monitoring
+  /** Resolves once all background revalidations have settled. */
+  async settle(): Promise<void> {
+    await Promise.all(this.revalidating.values());
+  }
 
-View your builds at: https://app.nativelink.com/builds`
+  /**
+   * The bundled guide for `topic`, led by the bundled section that best matches
+   * `context` when the guide does not already contain it. A topic without a guide
+   * gets that section alone, or the setup guide, and is marked as a fallback.
+   */
+  private getOfflineDocumentation(topic: string, context?: string): DocsResult {
+    const guide: string | undefined = OFFLINE_DOCS[topic as DocsTopic];
+    const [match] = context ? searchDocs(context, 1) : [];
+    const related = match && !guide?.includes(match.section.text)
+      ? [
+        `## Closest match for "${context}": ${match.section.path.join(' › ')}`,
+        `Source: ${match.section.uri}`,
+        '',
+        match.section.text
+      ].join('\n')
+      : undefined;
+
+    if (!guide) {
+      return { content: related || OFFLINE_DOCS.setup, source: 'bundled', fallback: true };
+    }
+    return {
+      content: related ? `${related}\n\n---\n\n${guide}` : guide,
+      source: 'bundled'
     };
+  }
 
-    return docs[topic] || docs.setup;
+  private debugLog(message: string, error: unknown): void {
+    if (this.config.debug) {
+      console.error(message, error);
+    }
   }
 
-  async analyzePerformance(metrics: any): Promise<string> {
+  /**
+   * Scores and suggested flags come from `/api/analyze` when an AI key is configured
+   * and the API returns them; anything it leaves out is computed locally.
+   */
+  async analyzePerformance(metrics: BuildMetrics, options: AnalyzePerformanceOptions): Promise<PerformanceAnalysis> {
+    const score = scoreBuild(metrics, options.profile);
+    const local: PerformanceAnalysis = {
+      analysis: this.generateBasicAnalysis(metrics),
+      score,
+      suggestedFlags: suggestFlags(score, options.targetOptimization, options.bazelMajor),
+      source: 'local'
+    };
+
     if (this.config.anthropicKey || this.config.geminiKey) {
       try {
         const aiProvider = this.config.anthropicKey ? 'anthropic' : 'gemini';
-        const response = await fetch(`${this.baseUrl}/analyze`, {
+        const response = await this.client.request<AnalyzeResponse>({
           method: 'POST',
+          path: '/analyze',
           headers: {
-            'Authorization': `Bearer ${this.config.apiKey}`,
             'X-AI-Provider': aiProvider,
-            'X-AI-Key': this.config.anthropicKey || this.config.geminiKey || '',
-            'Content-Type': 'application/json'
+            'X-AI-Key': this.config.anthropicKey || this.config.geminiKey || ''
           },
-          body: JSON.stringify({ metrics })
+          body: { metrics, targetOptimization: options.targetOptimization }
         });
 
-        if (response.ok) {
-          const data = await response.json() as { analysis: string };
-          return data.analysis;
+        const data = response.data;
+        if (data?.analysis) {
+          const apiScore = PerformanceScore.partial().safeParse(data.score);
+          // API flags get the same Bazel-version spelling as the local ones.
+          const apiFlags = (data.suggestedConfig?.flags || []).map(toSuggestedFlag).flatMap(suggestion => {
+            const flag = spellFlag(suggestion.flag, options.bazelMajor);
+            return flag === null ? [] : [{ ...suggestion, flag }];
+          });
+          return {
+            analysis: data.analysis,
+            score: { ...score, ...(apiScore.success ? stripNullish(apiScore.data) : {}) },
+            suggestedFlags: apiFlags.length > 0 ? apiFlags : local.suggestedFlags,
+            source: 'api'
+          };
         }
       } catch (error) {
-        console.error('Error analyzing performance:', error);
+        this.debugLog('Error analyzing performance:', error);
       }
     }
 
-    return this.generateBasicAnalysis(metrics);
+    return local;
   }
 
-  private generateBasicAnalysis(metrics: any): string {
+  private generateBasicAnalysis(metrics: BuildMetrics): string {
     const analysis: string[] = [];
 
     if (metrics.cacheHitRate !== undefined) {
@@ -260,6 +229,9 @@ View your builds at: https://app.nativelink.com/builds`
         analysis.push('  - Enabling strict action environment');
         analysis.push('  - Checking for non-hermetic build rules');
         analysis.push('  - Reviewing toolchain configuration');
+        if (metrics.cacheMisses) {
+          analysis.push(`  - Comparing execution logs with \`analyze-cache-misses\` to see why ${metrics.cacheMisses} actions missed`);
+        }
       } else if (metrics.cacheHitRate > 0.8) {
         analysis.push('✅ Excellent cache hit rate!');
       }
@@ -272,12 +244,60 @@ View your builds at: https://app.nativelink.com/builds`
       }
     }
 
+    if (metrics.failedActions) {
+      const of = metrics.totalActions ? ` of ${metrics.totalActions}` : '';
+      analysis.push(`❌ ${metrics.failedActions}${of} actions failed. Failed actions are never cached, so fix them before tuning the cache.`);
+    }
+
     if (metrics.networkTransferSize && metrics.networkTransferSize > 1024 * 1024 * 100) {
       analysis.push('🌐 Large network transfers detected. Consider:');
       analysis.push('  - Using --remote_download_minimal');
       analysis.push('  - Enabling compression');
     }
 
+    if (metrics.bytesUploaded && metrics.bytesUploaded > 1024 * 1024 * 100 &&
+        metrics.bytesUploaded > (metrics.bytesDownloaded || 0)) {
+      analysis.push('⬆️ More data is uploaded than downloaded. If developer machines upload their local results,');
+      analysis.push('  consider `--noremote_upload_local_results` outside CI so only CI populates the cache.');
+    }
+
+    for (const m of getDominantMnemonics(metrics, 0.4)) {
+      analysis.push(`📊 ${m.mnemonic} accounts for ${Math.round(m.share * 100)}% of the build (${m.actions} actions).`);
+    }
+
+    const workerMnemonics = (metrics.mnemonics || []).filter(m => m.workers).map(m => m.mnemonic);
+    if (metrics.workerCount) {
+      const which = workerMnemonics.length > 0 ? ` for ${workerMnemonics.join(', ')}` : '';
+      analysis.push(`🔧 ${metrics.workerCount} persistent workers ran${which}. Worker actions run locally;`);
+      analysis.push(`  \`--strategy=${workerMnemonics[0] || '<Mnemonic>'}=remote,worker\` sends them to remote executors first.`);
+    }
+
     return analysis.join('\n') || 'Build metrics look normal. No specific optimizations recommended.';
   }
+}
+
+function fromCache(entry: DocsCacheEntry, stale: boolean): DocsResult {
+  return {
+    content: entry.content,
+    source: 'cached',
+    fetchedAt: entry.fetchedAt,
+    lastUpdated: entry.lastUpdated,
+    version: entry.version,
+    stale
+  };
+}
+
+function toSuggestedFlag(flag: string | { flag: string; rationale?: string }): SuggestedFlag {
+  const value = typeof flag === 'string' ? flag : flag.flag;
+  const rationale = typeof flag === 'string' ? undefined : flag.rationale;
+  return {
+    flag: value,
+    command: 'build',
+    area: 'general',
+    rationale: rationale || 'Suggested by the Nativelink analysis API'
+  };
+}
+
+function stripNullish<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== null)) as Partial<T>;
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { isAbsolute, relative } from 'path';
+import { parseBazelrc, type BazelrcEntry } from './bazelrc.js';
+import { RENAMED_FLAGS, REPEATABLE_FLAGS } from './flags.js';
+import { createUnifiedDiff } from './diff.js';
+
+export const NATIVELINK_CONFIG_NAME = 'nativelink';
+
+export interface MergeBazelrcOptions {
+  file?: string;
+  workspacePath?: string;
+  header?: string[];
+}
+
+export interface MergeBazelrcResult {
+  content: string;
+  diff: string;
+  added: number;
+  duplicates: string[];
+  kept: string[];
+}
+
+const BLOCK_START = `# --- NativeLink (enable with --config=${NATIVELINK_CONFIG_NAME}) ---`;
+const BLOCK_END = '# --- end NativeLink ---';
+
+// Endpoint and credential flags are the point of the group, so they are written even when the
+// base config points somewhere else; `--config=nativelink` is expanded after the base flags.
+const NATIVELINK_OWNED_FLAGS = new Set([
+  'remote_cache',
+  'remote_executor',
+  'remote_instance_name',
+  'remote_header',
+  'bes_backend',
+  'bes_header',
+  'bes_results_url',
+  'credential_helper',
+  'tls_certificate',
+  'tls_client_certificate',
+  'tls_client_key'
+]);
+
+const INHERITED_COMMANDS: Record<string, string[]> = {
+  build: ['common', 'always', 'build'],
+  test: ['common', 'always', 'build', 'test']
+};
+
+/**
+ * Adds generated `.bazelrc` lines to an existing file as a `build:nativelink` group.
+ * Flags the file already sets are left to the user: identical ones are dropped as
+ * duplicates and differing ones keep the user's value, except for the NativeLink
+ * endpoints and headers. A block written by a previous run is replaced in place.
+ */
+export function mergeIntoBazelrc(
+  existing: string,
+  generated: string[],
+  options: MergeBazelrcOptions = {}
+): MergeBazelrcResult {
+  const file = options.file || '.bazelrc';
+  const { before, after } = removeManagedBlock(existing);
+  // The old block is blanked rather than removed so reported line numbers match the file.
+  const blanked = [...before, ...new Array(splitLines(existing).length - before.length - after.length).fill(''), ...after];
+  const parsed = parseBazelrc(blanked.join('\n'), {
+    file,
+    workspacePath: options.workspacePath
+  });
+  const userEntries = parsed.entries;
+  const userImports = new Set(parsed.imports.map(imported => imported.path));
+
+  const duplicates: string[] = [];
+  const kept: string[] = [];
+  const sections: string[][] = [];
+
+  for (const section of splitSections(generated)) {
+    const output: string[] = [];
+    let flags = 0;
+
+    for (const line of section) {
+      // Imports such as `try-import %workspace%/.bazelrc.user` are copied once, without a config group.
+      const imported = parseBazelrc(line).imports[0];
+      if (imported) {
+        if (!userImports.has(imported.path)) {
+          output.push(line);
+          flags++;
+        }
+        continue;
+      }
+
+      const entry = parseGeneratedLine(line);
+      if (!entry) {
+        output.push(line);
+        continue;
+      }
+
+      const existingEntry = findUserSetting(entry, userEntries);
+      if (existingEntry && sameValue(existingEntry, entry)) {
+        duplicates.push(describe(entry));
+        continue;
+      }
+      if (existingEntry && (existingEntry.config === NATIVELINK_CONFIG_NAME || !NATIVELINK_OWNED_FLAGS.has(canonicalName(entry)))) {
+        kept.push(`${describe(existingEntry)} (${existingEntry.file}:${existingEntry.line})`);
+        continue;
+      }
+
+      output.push(line.replace(/^(\s*[a-z-]+)(\s)/, `$1:${NATIVELINK_CONFIG_NAME}$2`));
+      flags++;
+    }
+
+    if (flags > 0) sections.push(output);
+  }
+
+  const block = [BLOCK_START, ...(options.header || [])];
+  if (duplicates.length > 0) {
+    block.push(`# Already set in ${file}: ${duplicates.join(', ')}`);
+  }
+  if (kept.length > 0) {
+    block.push(`# Keeping your values: ${kept.join(', ')}`);
+  }
+  for (const section of sections) {
+    block.push('', ...section);
+  }
+  block.push(BLOCK_END);
+
+  const leading = trimBlankEnd(before);
+  const trailing = trimBlankStart(after);
+  const mergedLines = [
+    ...leading,
+    ...(leading.length > 0 ? [''] : []),
+    ...block,
+    ...(trailing.length > 0 ? ['', ...trailing] : [])
+  ];
+  const content = mergedLines.join('\n') + '\n';
+
+  return {
+    content,
+    diff: createUnifiedDiff(existing, content, getDiffPath(file, options.workspacePath)),
+    added: sections.reduce((total, section) => total + section.filter(parseGeneratedLine).length, 0),
+    duplicates,
+    kept
+  };
+}
+
+// `git apply` and `patch -p1` strip the `a/` and `b/` prefix and expect a workspace-relative path after it.
+function getDiffPath(file: string, workspacePath?: string): string {
+  if (!isAbsolute(file)) return file;
+
+  const path = workspacePath ? relative(workspacePath, file) : '';
+  return path && !path.startsWith('..') && !isAbsolute(path) ? path : file.replace(/^\/+/, '');
+}
+
+function splitLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function removeManagedBlock(content: string): { before: string[]; after: string[] } {
+  const lines = splitLines(content);
+
+  const start = lines.indexOf(BLOCK_START);
+  const end = start === -1 ? -1 : lines.indexOf(BLOCK_END, start);
+  if (start === -1 || end === -1) {
+    return { before: lines, after: [] };
+  }
+
+  return { before: lines.slice(0, start), after: lines.slice(end + 1) };
+}
+
+function splitSections(lines: string[]): string[][] {
+  const sections: string[][] = [[]];
+  for (const line of lines) {
+    if (line.trim() === '') {
+      if (sections[sections.length - 1].length > 0) sections.push([]);
+    } else {
+      sections[sections.length - 1].push(line);
+    }
+  }
+  return sections.filter(section => section.length > 0);
+}
+
+function parseGeneratedLine(line: string): BazelrcEntry | undefined {
+  if (line.trim().startsWith('#')) return undefined;
+  return parseBazelrc(line).entries[0];
+}
+
+function canonicalName(entry: BazelrcEntry): string {
+  return RENAMED_FLAGS[entry.name] || entry.name;
+}
+
+// Repeatable flags such as --action_env=KEY=VALUE are matched on their key, so a user's
+// own value for the same variable counts as a setting rather than an unrelated entry.
+function settingKey(entry: BazelrcEntry): string {
+  const name = canonicalName(entry);
+  if (!REPEATABLE_FLAGS.has(name)) return name;
+  return `${name}|${(entry.value || '').split('=')[0]}`;
+}
+
+function findUserSetting(entry: BazelrcEntry, userEntries: BazelrcEntry[]): BazelrcEntry | undefined {
+  const commands = INHERITED_COMMANDS[entry.command] || [entry.command];
+  const key = settingKey(entry);
+
+  const matches = userEntries.filter(user =>
+    commands.includes(user.command) &&
+    (!user.config || user.config === NATIVELINK_CONFIG_NAME) &&
+    settingKey(user) === key
+  );
+
+  // A value inside the user's own nativelink group takes precedence over the base config.
+  return matches.filter(user => user.config).at(-1) || matches.at(-1);
+}
+
+function sameValue(a: BazelrcEntry, b: BazelrcEntry): boolean {
+  return (a.value ?? 'true') === (b.value ?? 'true');
+}
+
+function describe(entry: BazelrcEntry): string {
+  const prefix = entry.negated ? 'no' : '';
+  const value = entry.value !== undefined && !entry.negated ? `=${entry.value}` : '';
+  return `--${prefix}${entry.name}${value}`;
+}
+
+function trimBlankEnd(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') end--;
+  return lines.slice(0, end);
+}
+
+function trimBlankStart(lines: string[]): string[] {
+  let start = 0;
+  while (start < lines.length && lines[start].trim() === '') start++;
+  return lines.slice(start);
+}
\ No newline at end of file
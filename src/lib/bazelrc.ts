@@ -0,0 +1,235 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, isAbsolute, resolve } from 'path';
+import { FLAG_ALIASES } from './flags.js';
+
+export interface BazelrcEntry {
+  file: string;
+  line: number;
+  command: string;
+  config?: string;
+  flag: string;
+  name: string;
+  value?: string;
+  negated: boolean;
+}
+
+export interface BazelrcImport {
+  file: string;
+  line: number;
+  path: string;
+  optional: boolean;
+  resolved?: string;
+  found: boolean;
+}
+
+export interface ParsedBazelrc {
+  entries: BazelrcEntry[];
+  imports: BazelrcImport[];
+  errors: { file: string; line: number; message: string }[];
+}
+
+export interface ParseBazelrcOptions {
+  file?: string;
+  workspacePath?: string;
+}
+
+const MAX_IMPORT_DEPTH = 10;
+
+export function parseBazelrc(content: string, options: ParseBazelrcOptions = {}): ParsedBazelrc {
+  const result: ParsedBazelrc = { entries: [], imports: [], errors: [] };
+  parseInto(result, content, options.file || '.bazelrc', options.workspacePath, new Set(), 0);
+  return result;
+}
+
+export function readBazelrcFile(path: string, workspacePath?: string): ParsedBazelrc {
+  const content = readFileSync(path, 'utf8');
+  return parseBazelrc(content, {
+    file: path,
+    workspacePath: workspacePath || dirname(path)
+  });
+}
+
+/**
+ * Returns the command and config group an entry applies to, e.g. `build` or `build:ci`.
+ */
+export function getScopeKey(entry: BazelrcEntry): string {
+  return entry.config ? `${entry.command}:${entry.config}` : entry.command;
+}
+
+function parseInto(
+  result: ParsedBazelrc,
+  content: string,
+  file: string,
+  workspacePath: string | undefined,
+  visited: Set<string>,
+  depth: number
+): void {
+  for (const { line, text } of joinContinuationLines(content)) {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) continue;
+
+    const [head, ...rest] = tokens;
+
+    if (head === 'import' || head === 'try-import') {
+      handleImport(result, {
+        file,
+        line,
+        path: rest.join(' '),
+        optional: head === 'try-import'
+      }, workspacePath, visited, depth);
+      continue;
+    }
+
+    const [command, config] = head.split(':', 2);
+    if (!/^[a-z-]+$/.test(command)) {
+      result.errors.push({ file, line, message: `Unrecognized line: "${text}"` });
+      continue;
+    }
+
+    for (let i = 0; i < rest.length; i++) {
+      const token = rest[i];
+      if (!token.startsWith('-')) {
+        result.errors.push({ file, line, message: `Unexpected argument "${token}" (flags must start with --)` });
+        continue;
+      }
+
+      let flag = token;
+      let value: string | undefined;
+      const eq = token.indexOf('=');
+      if (eq !== -1) {
+        flag = token.slice(0, eq);
+        value = token.slice(eq + 1);
+      } else if (i + 1 < rest.length && !rest[i + 1].startsWith('-')) {
+        value = rest[++i];
+      }
+
+      result.entries.push({ file, line, command, config, ...normalizeFlag(flag, value) });
+    }
+  }
+}
+
+function handleImport(
+  result: ParsedBazelrc,
+  entry: Omit<BazelrcImport, 'found' | 'resolved'>,
+  workspacePath: string | undefined,
+  visited: Set<string>,
+  depth: number
+): void {
+  const record: BazelrcImport = { ...entry, found: false };
+  result.imports.push(record);
+
+  if (!workspacePath && entry.path.includes('%workspace%')) {
+    return;
+  }
+
+  const substituted = entry.path.replace('%workspace%', workspacePath || '');
+  const resolved = isAbsolute(substituted)
+    ? substituted
+    : resolve(workspacePath || dirname(entry.file), substituted);
+  record.resolved = resolved;
+
+  if (!existsSync(resolved)) {
+    if (!entry.optional) {
+      result.errors.push({ file: entry.file, line: entry.line, message: `Imported file not found: ${entry.path}` });
+    }
+    return;
+  }
+
+  record.found = true;
+  if (visited.has(resolved) || depth >= MAX_IMPORT_DEPTH) {
+    result.errors.push({ file: entry.file, line: entry.line, message: `Import cycle or nesting too deep: ${entry.path}` });
+    return;
+  }
+
+  visited.add(resolved);
+  parseInto(result, readFileSync(resolved, 'utf8'), resolved, workspacePath, visited, depth + 1);
+}
+
+function normalizeFlag(flag: string, value?: string): Pick<BazelrcEntry, 'flag' | 'name' | 'value' | 'negated'> {
+  let name = flag.replace(/^-+/, '');
+  let negated = false;
+
+  // `--noflag` is Bazel's spelling of `--flag=false`; `@repo//...` starlark flags are never negated this way.
+  if (value === undefined && name.startsWith('no') && !name.startsWith('@')) {
+    name = name.slice(2);
+    negated = true;
+    value = 'false';
+  }
+
+  const alias = FLAG_ALIASES[name];
+  if (alias && value === undefined) {
+    return { flag, name: alias.name, value: alias.value, negated };
+  }
+
+  return { flag, name, value, negated };
+}
+
+function joinContinuationLines(content: string): { line: number; text: string }[] {
+  const logical: { line: number; text: string }[] = [];
+  const lines = content.split(/\r?\n/);
+  let buffer = '';
+  let start = 0;
+
+  lines.forEach((raw, index) => {
+    const text = stripComment(raw);
+    if (!buffer) start = index + 1;
+
+    if (text.endsWith('\\')) {
+      buffer += text.slice(0, -1) + ' ';
+      return;
+    }
+
+    buffer += text;
+    if (buffer.trim()) {
+      logical.push({ line: start, text: buffer.trim() });
+    }
+    buffer = '';
+  });
+
+  if (buffer.trim()) {
+    logical.push({ line: start, text: buffer.trim() });
+  }
+
+  return logical;
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+}
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let hasToken = false;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken || current) tokens.push(current);
+      current = '';
+      hasToken = false;
+    } else {
+      current += char;
+    }
+  }
+
+  if (hasToken || current) tokens.push(current);
+  return tokens;
+}
\ No newline at end of file
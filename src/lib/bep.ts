@@ -0,0 +1,322 @@
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import type { BuildEventSummary, BuildMetrics, MnemonicMetrics } from './types.js';
+
+// Proto3 JSON encodes int64 fields as strings, so every numeric field goes through this.
+type Int64 = number | string;
+
+interface ActionData {
+  mnemonic: string;
+  actionsExecuted?: Int64;
+  userTime?: string;
+  systemTime?: string;
+}
+
+interface WorkerMetrics {
+  workerIds?: number[];
+  mnemonic?: string;
+}
+
+// The id holds one key naming the event kind, e.g. {"targetCompleted": {"label": ...}}.
+type BuildEventId = Record<string, { label?: string; [key: string]: unknown } | undefined>;
+
+interface BuildEvent {
+  id?: BuildEventId;
+  started?: { uuid?: string; startTimeMillis?: Int64; startTime?: string; command?: string };
+  finished?: {
+    overallSuccess?: boolean;
+    exitCode?: { name?: string; code?: number };
+    finishTimeMillis?: Int64;
+    finishTime?: string;
+  };
+  completed?: { success?: boolean };
+  aborted?: { reason?: string; description?: string };
+  action?: {
+    success?: boolean;
+    type?: string;
+    label?: string;
+    exitCode?: number;
+    stderr?: { name?: string; uri?: string; contents?: string };
+  };
+  testResult?: {
+    status?: string;
+    testAttemptDurationMillis?: Int64;
+    testAttemptDuration?: string;
+  };
+  testSummary?: { overallStatus?: string; totalRunCount?: number };
+  optionsParsed?: { cmdLine?: string[]; explicitCmdLine?: string[] };
+  workspaceStatus?: { item?: { key: string; value?: string }[] };
+  buildMetrics?: {
+    actionSummary?: {
+      actionsExecuted?: Int64;
+      actionCacheStatistics?: { hits?: number; misses?: number };
+      runnerCount?: { name: string; count?: number; execKind?: string }[];
+      actionData?: ActionData[];
+    };
+    timingMetrics?: {
+      wallTimeInMs?: Int64;
+      criticalPathTimeInMs?: Int64;
+      criticalPathTime?: string;
+    };
+    networkMetrics?: { systemNetworkStats?: { bytesSent?: Int64; bytesRecv?: Int64 } };
+    workerMetrics?: WorkerMetrics[];
+  };
+}
+
+const MAX_STDERR_CHARS = 2000;
+
+export function readBuildEvents(content?: string, path?: string): BuildEvent[] {
+  let text: string;
+  if (path) {
+    text = readFileSync(path).toString('utf8');
+  } else if (content) {
+    text = content;
+  } else {
+    throw new Error('Either BEP content or a BEP file path is required');
+  }
+
+  if (!text.trimStart().startsWith('{')) {
+    throw new Error(
+      'Build event file is not JSON. The binary --build_event_binary_file stream is not supported; ' +
+      're-run with --build_event_json_file=bep.json instead.'
+    );
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as BuildEvent);
+}
+
+export function summarizeBuildEvents(events: BuildEvent[]): BuildEventSummary {
+  const summary: BuildEventSummary = {
+    success: false,
+    failedTargets: [],
+    flakyTests: [],
+    failedTests: [],
+    slowestTests: [],
+    runnerCounts: {},
+    failedActions: 0,
+    mnemonics: []
+  };
+  const testDurations: { label: string; duration: number }[] = [];
+  const actionStderr = new Map<string, string>();
+  let startMillis: number | undefined;
+  let finishMillis: number | undefined;
+  let besResultsUrl: string | undefined;
+
+  for (const event of events) {
+    const id: BuildEventId = event.id || {};
+
+    if (event.started) {
+      summary.invocationId = event.started.uuid;
+      summary.command = event.started.command;
+      startMillis = toMillis(event.started.startTimeMillis, event.started.startTime);
+    }
+
+    if (event.optionsParsed) {
+      const flags = [...(event.optionsParsed.cmdLine || []), ...(event.optionsParsed.explicitCmdLine || [])];
+      const flag = flags.find(f => f.startsWith('--bes_results_url='));
+      if (flag) besResultsUrl = flag.slice('--bes_results_url='.length);
+      summary.commandLine = event.optionsParsed.explicitCmdLine || event.optionsParsed.cmdLine;
+    }
+
+    // Present when the build runs with --workspace_status_command, e.g. tools/buildstamp.sh.
+    if (event.workspaceStatus) {
+      const revision = event.workspaceStatus.item?.find(item => item.key === 'BUILD_SCM_REVISION' || item.key === 'STABLE_GIT_COMMIT');
+      if (revision?.value) summary.scmRevision = revision.value;
+    }
+
+    if (event.action && event.action.success === false) {
+      summary.failedActions++;
+      const label = event.action.label || id.actionCompleted?.label || 'unknown';
+      actionStderr.set(label, readStderr(event.action.stderr));
+    }
+
+    const targetLabel = id.targetCompleted?.label;
+    if (targetLabel && (event.completed?.success === false || event.aborted)) {
+      if (!summary.failedTargets.some(t => t.label === targetLabel)) {
+        summary.failedTargets.push({ label: targetLabel, stderr: event.aborted?.description });
+      }
+    }
+
+    const testLabel = id.testResult?.label;
+    if (testLabel && event.testResult) {
+      const duration = toMillis(event.testResult.testAttemptDurationMillis, undefined, event.testResult.testAttemptDuration);
+      if (duration !== undefined) {
+        testDurations.push({ label: testLabel, duration: duration / 1000 });
+      }
+    }
+
+    const summaryLabel = id.testSummary?.label;
+    if (summaryLabel && event.testSummary) {
+      if (event.testSummary.overallStatus === 'FLAKY') summary.flakyTests.push(summaryLabel);
+      if (event.testSummary.overallStatus === 'FAILED') summary.failedTests.push(summaryLabel);
+    }
+
+    if (event.buildMetrics) {
+      const { actionSummary, timingMetrics, networkMetrics, workerMetrics } = event.buildMetrics;
+      summary.actionsExecuted = toNumber(actionSummary?.actionsExecuted);
+      summary.actionCacheHits = actionSummary?.actionCacheStatistics?.hits;
+      summary.actionCacheMisses = actionSummary?.actionCacheStatistics?.misses;
+      for (const runner of actionSummary?.runnerCount || []) {
+        summary.runnerCounts[runner.name] = runner.count || 0;
+      }
+      summary.wallTime = divide(toNumber(timingMetrics?.wallTimeInMs), 1000);
+      summary.criticalPathTime = divide(
+        toMillis(timingMetrics?.criticalPathTimeInMs, undefined, timingMetrics?.criticalPathTime),
+        1000
+      );
+      const network = networkMetrics?.systemNetworkStats;
+      if (network) {
+        summary.hostBytesSent = toNumber(network.bytesSent);
+        summary.hostBytesReceived = toNumber(network.bytesRecv);
+      }
+      summary.mnemonics = getMnemonicMetrics(actionSummary?.actionData || [], workerMetrics || []);
+      if (workerMetrics) {
+        summary.workerCount = workerMetrics.reduce((total, worker) => total + (worker.workerIds?.length || 1), 0);
+      }
+    }
+
+    if (event.finished) {
+      summary.success = event.finished.overallSuccess ?? event.finished.exitCode?.code === 0;
+      summary.exitCode = event.finished.exitCode?.code ?? 0;
+      summary.exitCodeName = event.finished.exitCode?.name || 'SUCCESS';
+      finishMillis = toMillis(event.finished.finishTimeMillis, event.finished.finishTime);
+    }
+  }
+
+  for (const target of summary.failedTargets) {
+    target.stderr = actionStderr.get(target.label) || target.stderr;
+  }
+  for (const [label, stderr] of actionStderr) {
+    if (!summary.failedTargets.some(t => t.label === label)) {
+      summary.failedTargets.push({ label, stderr });
+    }
+  }
+
+  if (summary.wallTime === undefined && startMillis !== undefined && finishMillis !== undefined) {
+    summary.wallTime = (finishMillis - startMillis) / 1000;
+  }
+
+  summary.slowestTests = testDurations.sort((a, b) => b.duration - a.duration).slice(0, 10);
+
+  if (besResultsUrl) {
+    // Bazel prints the results link as the configured URL followed by the invocation id.
+    const base = besResultsUrl.replace(/\/+$/, '');
+    summary.resultsUrl = summary.invocationId ? `${base}/${summary.invocationId}` : base;
+  }
+
+  return summary;
+}
+
+/**
+ * Derives the `BuildMetrics` that `analyze-build-performance` consumes from a BEP summary.
+ */
+export function toBuildMetrics(summary: BuildEventSummary): BuildMetrics {
+  const metrics: BuildMetrics = {};
+  const runners = summary.runnerCounts;
+
+  if (summary.wallTime !== undefined) {
+    metrics.totalTime = summary.wallTime;
+  }
+
+  const executed = Object.entries(runners)
+    .filter(([name]) => name !== 'total' && name !== 'internal')
+    .reduce((total, [, count]) => total + count, 0);
+  const cacheHits = (runners['remote cache hit'] || 0) + (runners['disk cache hit'] || 0);
+  if (executed > 0) {
+    metrics.totalActions = executed;
+    metrics.cacheHits = cacheHits;
+    metrics.cacheMisses = executed - cacheHits;
+    metrics.cacheHitRate = cacheHits / executed;
+  } else if (summary.actionCacheHits !== undefined && summary.actionCacheMisses !== undefined) {
+    const total = summary.actionCacheHits + summary.actionCacheMisses;
+    metrics.cacheHits = summary.actionCacheHits;
+    metrics.cacheMisses = summary.actionCacheMisses;
+    if (total > 0) metrics.cacheHitRate = summary.actionCacheHits / total;
+  }
+  if (metrics.totalActions === undefined && summary.actionsExecuted !== undefined) {
+    metrics.totalActions = summary.actionsExecuted;
+  }
+  metrics.failedActions = summary.failedActions;
+
+  // Cache transfer sizes are not in the BEP; systemNetworkStats counts the whole host, so it is left out.
+
+  if (summary.workerCount !== undefined) {
+    metrics.workerCount = summary.workerCount;
+  }
+  if (summary.mnemonics.length > 0) {
+    metrics.mnemonics = summary.mnemonics;
+  }
+
+  return metrics;
+}
+
+// actionData gives per-mnemonic counts and CPU time; workerMetrics lists the persistent workers started for each mnemonic.
+function getMnemonicMetrics(actionData: ActionData[], workerMetrics: WorkerMetrics[]): MnemonicMetrics[] {
+  const byMnemonic = new Map<string, MnemonicMetrics>();
+
+  for (const data of actionData) {
+    const cpuMillis = (toMillis(undefined, undefined, data.userTime) || 0) + (toMillis(undefined, undefined, data.systemTime) || 0);
+    byMnemonic.set(data.mnemonic, {
+      mnemonic: data.mnemonic,
+      actions: toNumber(data.actionsExecuted) || 0,
+      ...((data.userTime || data.systemTime) && { totalTime: cpuMillis / 1000 })
+    });
+  }
+
+  for (const worker of workerMetrics) {
+    if (!worker.mnemonic) continue;
+    const entry = byMnemonic.get(worker.mnemonic) || { mnemonic: worker.mnemonic, actions: 0 };
+    entry.workers = (entry.workers || 0) + (worker.workerIds?.length || 1);
+    byMnemonic.set(worker.mnemonic, entry);
+  }
+
+  return [...byMnemonic.values()].sort((a, b) => (b.totalTime ?? b.actions) - (a.totalTime ?? a.actions));
+}
+
+function readStderr(stderr?: { uri?: string; contents?: string }): string {
+  if (!stderr) return '';
+  if (stderr.contents) return truncate(Buffer.from(stderr.contents, 'base64').toString('utf8'));
+  if (!stderr.uri) return '';
+
+  if (stderr.uri.startsWith('file://')) {
+    const path = fileURLToPath(stderr.uri);
+    if (existsSync(path)) {
+      return truncate(readFileSync(path, 'utf8'));
+    }
+  }
+
+  return `stderr available at ${stderr.uri}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_STDERR_CHARS ? `${text.slice(0, MAX_STDERR_CHARS)}\n[stderr truncated]` : text;
+}
+
+function toNumber(value?: Int64): number | undefined {
+  if (value === undefined) return undefined;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Newer Bazel versions replace the *Millis fields with proto Timestamp / Duration strings.
+function toMillis(millis?: Int64, timestamp?: string, duration?: string): number | undefined {
+  const direct = toNumber(millis);
+  if (direct !== undefined) return direct;
+  if (timestamp) {
+    const parsed = Date.parse(timestamp);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  if (duration) {
+    const match = duration.match(/^([\d.]+)s$/);
+    return match ? parseFloat(match[1]) * 1000 : undefined;
+  }
+  return undefined;
+}
+
+function divide(value: number | undefined, by: number): number | undefined {
+  return value === undefined ? undefined : value / by;
+}
\ No newline at end of file
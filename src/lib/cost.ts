@@ -0,0 +1,198 @@
+import { FLAG_ALIASES, RENAMED_FLAGS } from './flags.js';
+import { INSTANCE_TYPES, getAWSInstanceType, getAzureVMSize, getGCPMachineType } from './instances.js';
+import type { BuildMetrics, CostEstimate, PriceSheet, PriceSheetName, Scale } from './types.js';
+
+export const DEFAULT_PRICE_SHEET: PriceSheetName = 'cloud-team';
+export const DEFAULT_BUILDS_PER_MONTH = 1000;
+
+// Placeholder rates, not Nativelink's published pricing: they only give the estimate a
+// shape until a price sheet with the rates of your plan is passed.
+const CLOUD_PRICE_SHEETS: Record<'cloud-free' | 'cloud-team' | 'cloud-enterprise', PriceSheet> = {
+  'cloud-free': {
+    name: 'Nativelink Cloud Free (placeholder rates)',
+    placeholder: true,
+    monthlyBase: 0,
+    remoteExecutionHour: 0.06,
+    transferGB: 0.1,
+    storageGBMonth: 0.1,
+    included: { remoteExecutionHours: 100, transferGB: 100, storageGB: 50 }
+  },
+  'cloud-team': {
+    name: 'Nativelink Cloud Team (placeholder rates)',
+    placeholder: true,
+    monthlyBase: 100,
+    remoteExecutionHour: 0.05,
+    transferGB: 0.08,
+    storageGBMonth: 0.08,
+    included: { remoteExecutionHours: 500, transferGB: 500, storageGB: 250 }
+  },
+  'cloud-enterprise': {
+    name: 'Nativelink Cloud Enterprise (placeholder rates)',
+    placeholder: true,
+    monthlyBase: 1000,
+    remoteExecutionHour: 0.04,
+    transferGB: 0.05,
+    storageGBMonth: 0.05,
+    included: { remoteExecutionHours: 5000, transferGB: 5000, storageGB: 2000 }
+  }
+};
+
+// Internet egress and block storage list prices for self-hosted deployments, USD.
+const SELF_HOSTED_RATES = {
+  aws: { instanceType: getAWSInstanceType, transferGB: 0.09, storageGBMonth: 0.08 },
+  gcp: { instanceType: getGCPMachineType, transferGB: 0.12, storageGBMonth: 0.1 },
+  azure: { instanceType: getAzureVMSize, transferGB: 0.087, storageGBMonth: 0.12 }
+};
+
+const HOURS_PER_MONTH = 730;
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * Resolves a built-in price sheet. Self-hosted sheets price a remote execution hour
+ * as one vCPU of the instance type `generate-deployment-config` uses for `scale`,
+ * plus one always-on node of that type for the scheduler and CAS.
+ */
+export function getPriceSheet(name: PriceSheetName, scale: Scale = 'medium'): PriceSheet {
+  if (name === 'aws' || name === 'gcp' || name === 'azure') {
+    const rates = SELF_HOSTED_RATES[name];
+    const instanceType = rates.instanceType(scale);
+    const instance = INSTANCE_TYPES[instanceType];
+    return {
+      name: `Self-hosted on ${name.toUpperCase()} (${instanceType})`,
+      monthlyBase: round(instance.hourlyUsd * HOURS_PER_MONTH),
+      remoteExecutionHour: instance.hourlyUsd / instance.vcpus,
+      transferGB: rates.transferGB,
+      storageGBMonth: rates.storageGBMonth
+    };
+  }
+  return CLOUD_PRICE_SHEETS[name];
+}
+
+export interface BuildVolume {
+  buildsPerMonth: number;
+  /** Size of the cache; storage is left out of the estimate when unknown. */
+  storageGB?: number;
+}
+
+// What one build consumes; flag effects are applied to this before it is scaled to a month.
+interface BuildUsage {
+  /** Wall time summed over remote actions; Bazel does not report their CPU time. */
+  remoteExecutionSeconds: number;
+  bytesDown: number;
+  bytesUp: number;
+  cacheHitRate?: number;
+}
+
+interface FlagEffect {
+  assumption: string;
+  apply(usage: BuildUsage): BuildUsage;
+}
+
+// Rough effects from typical builds, keyed by the current flag name and value. The
+// effects must stack, since the estimate also applies all of them together.
+const FLAG_EFFECTS: Record<string, FlagEffect> = {
+  remote_download_minimal: {
+    assumption: 'Only outputs needed locally are downloaded, about 70% fewer bytes down',
+    apply: u => ({ ...u, bytesDown: u.bytesDown * 0.3 })
+  },
+  remote_cache_compression: {
+    assumption: 'zstd compression, about 40% fewer bytes each way',
+    apply: u => ({ ...u, bytesDown: u.bytesDown * 0.6, bytesUp: u.bytesUp * 0.6 })
+  },
+  'remote_build_event_upload=minimal': {
+    assumption: 'Build events no longer upload intermediate outputs, about 20% fewer bytes up',
+    apply: u => ({ ...u, bytesUp: u.bytesUp * 0.8 })
+  },
+  incompatible_strict_action_env: {
+    assumption: 'Stable action keys, about 10 more points of cache hits and fewer actions to run',
+    apply: u => {
+      if (u.cacheHitRate === undefined || u.cacheHitRate >= 0.9) return u;
+      const cacheHitRate = Math.min(0.95, u.cacheHitRate + 0.1);
+      const misses = (1 - cacheHitRate) / (1 - u.cacheHitRate);
+      return { ...u, cacheHitRate, remoteExecutionSeconds: u.remoteExecutionSeconds * misses, bytesUp: u.bytesUp * misses };
+    }
+  }
+};
+
+/** The flags the cost model knows the effect of, as they go in `.bazelrc`. */
+export const COST_FLAGS = Object.keys(FLAG_EFFECTS).map(key => `--${key}`);
+
+/**
+ * Estimates the monthly cost of running `volume.buildsPerMonth` builds like this
+ * one, and what it would be with each of `flags` added. Remote execution is billed
+ * by the summed wall time of remote actions. Flags the model has no effect for are left out.
+ */
+export function estimateCost(
+  metrics: BuildMetrics,
+  sheet: PriceSheet,
+  volume: BuildVolume,
+  flags: string[] = COST_FLAGS
+): CostEstimate {
+  const usage = getBuildUsage(metrics);
+  const monthlyCost = priceUsage(usage, sheet, volume);
+
+  const effects = new Map<string, FlagEffect & { flag: string }>();
+  for (const flag of flags) {
+    const key = getEffectKey(flag);
+    if (key && !effects.has(key)) effects.set(key, { ...FLAG_EFFECTS[key], flag });
+  }
+
+  const flagEffects = [...effects.values()].map(effect => {
+    const cost = priceUsage(effect.apply(usage), sheet, volume);
+    return { flag: effect.flag, assumption: effect.assumption, monthlyCost: cost, change: round(cost - monthlyCost) };
+  });
+  const combined = [...effects.values()].reduce((u, effect) => effect.apply(u), usage);
+
+  return {
+    priceSheet: sheet.name,
+    placeholderRates: sheet.placeholder === true,
+    buildsPerMonth: volume.buildsPerMonth,
+    usage: {
+      remoteExecutionHours: round((usage.remoteExecutionSeconds * volume.buildsPerMonth) / 3600),
+      transferGB: round(((usage.bytesDown + usage.bytesUp) * volume.buildsPerMonth) / GB),
+      storageGB: volume.storageGB ?? null
+    },
+    monthlyCost,
+    monthlyCostWithFlags: priceUsage(combined, sheet, volume),
+    flagEffects
+  };
+}
+
+function getBuildUsage(metrics: BuildMetrics): BuildUsage {
+  const bytesUp = metrics.bytesUploaded ?? 0;
+  const bytesDown = metrics.bytesDownloaded ??
+    (metrics.networkTransferSize !== undefined ? Math.max(0, metrics.networkTransferSize - bytesUp) : 0);
+  return {
+    remoteExecutionSeconds: metrics.remoteExecutionTime ?? 0,
+    bytesDown,
+    bytesUp,
+    cacheHitRate: metrics.cacheHitRate
+  };
+}
+
+function priceUsage(usage: BuildUsage, sheet: PriceSheet, volume: BuildVolume): number {
+  const included = sheet.included || {};
+  const billable = (used: number, free = 0) => Math.max(0, used - free);
+  const remoteExecutionHours = (usage.remoteExecutionSeconds * volume.buildsPerMonth) / 3600;
+  const transferGB = ((usage.bytesDown + usage.bytesUp) * volume.buildsPerMonth) / GB;
+
+  return round(
+    sheet.monthlyBase +
+    billable(remoteExecutionHours, included.remoteExecutionHours) * sheet.remoteExecutionHour +
+    billable(transferGB, included.transferGB) * sheet.transferGB +
+    billable(volume.storageGB ?? 0, included.storageGB) * sheet.storageGBMonth
+  );
+}
+
+// `--experimental_remote_cache_compression` and `--remote_download_outputs=minimal` find the same effect as their current spelling.
+function getEffectKey(flag: string): string | undefined {
+  const [rawName, value] = flag.replace(/^--/, '').split(/=(.*)/);
+  const name = RENAMED_FLAGS[rawName] || rawName;
+  const alias = Object.entries(FLAG_ALIASES).find(([, target]) => target.name === name && target.value === value);
+  const candidates = [alias?.[0], value !== undefined ? `${name}=${value}` : undefined, name];
+  return candidates.find((key): key is string => key !== undefined && key in FLAG_EFFECTS);
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 100) / 100;
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { chmodSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { CLOUD_HOST_SUFFIX } from './endpoints.js';
+
+export const CREDENTIAL_HELPER_BIN = 'nativelink-credential-helper';
+
+export const KeyName = z.enum(['default', 'cas', 'bes', 'scheduler']);
+export type KeyName = z.infer<typeof KeyName>;
+export type Endpoint = Exclude<KeyName, 'default'>;
+
+export const CredentialsFileSchema = z.object({
+  apiKey: z.string().min(1).optional().describe('Key for every endpoint without its own'),
+  cas: z.string().min(1).optional(),
+  bes: z.string().min(1).optional(),
+  scheduler: z.string().min(1).optional(),
+  hosts: z.record(z.string().min(1)).optional().describe('Keys by exact host name, e.g. for self-hosted endpoints')
+}).strict();
+
+export type CredentialsFile = z.infer<typeof CredentialsFileSchema>;
+
+export type KeySource = 'env' | 'file' | 'keyring';
+
+export interface ResolvedKey {
+  key: string;
+  source: KeySource;
+  /** The variable, file entry or keyring entry the key came from. */
+  name: string;
+}
+
+export interface CredentialOptions {
+  env?: Record<string, string | undefined>;
+  credentialsFile?: string;
+  keyringDir?: string;
+}
+
+const ENDPOINT_ENV: Record<Endpoint, string> = {
+  cas: 'NATIVELINK_CAS_API_KEY',
+  bes: 'NATIVELINK_BES_API_KEY',
+  scheduler: 'NATIVELINK_SCHEDULER_API_KEY'
+};
+
+/**
+ * `$NATIVELINK_CREDENTIALS_FILE`, else `$XDG_CONFIG_HOME/nativelink-mcp/credentials.json`,
+ * or under `~/.config` when it is unset.
+ */
+export function getDefaultCredentialsFile(): string {
+  if (process.env.NATIVELINK_CREDENTIALS_FILE) return process.env.NATIVELINK_CREDENTIALS_FILE;
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'nativelink-mcp', 'credentials.json');
+}
+
+/**
+ * `$XDG_DATA_HOME/nativelink-mcp/keyring`, or under `~/.local/share` when it is unset.
+ */
+export function getDefaultKeyringDir(): string {
+  const base = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+  return join(base, 'nativelink-mcp', 'keyring');
+}
+
+/**
+ * The Nativelink Cloud service a host belongs to, from its `cas-`, `bes-` or
+ * `scheduler-` prefix. Other hosts only match by name in the credentials file.
+ */
+export function getEndpoint(host: string): Endpoint | undefined {
+  if (!host.endsWith(CLOUD_HOST_SUFFIX)) return undefined;
+  const prefix = host.split('-')[0];
+  return prefix === 'cas' || prefix === 'bes' || prefix === 'scheduler' ? prefix : undefined;
+}
+
+/**
+ * Finds the API key for a request to `uri`. Sources are checked in order: a `hosts`
+ * entry for exactly this host in the credentials file, environment variables, the
+ * file's endpoint and default keys, then the keyring store. Within each source a key
+ * for the endpoint wins over the default key.
+ */
+export function resolveApiKey(uri: string, options: CredentialOptions = {}): ResolvedKey | undefined {
+  const env = options.env || process.env;
+  const host = new URL(uri).hostname;
+  const endpoint = getEndpoint(host);
+
+  // A key configured for one host is more specific than any global one, env vars included.
+  const file = options.credentialsFile || getDefaultCredentialsFile();
+  const credentials = readCredentialsFile(file);
+  const hostKey = credentials?.hosts?.[host];
+  if (hostKey) return { key: hostKey, source: 'file', name: `${file}: hosts["${host}"]` };
+
+  const envNames = [...(endpoint ? [ENDPOINT_ENV[endpoint]] : []), 'NATIVELINK_API_KEY'];
+  for (const name of envNames) {
+    if (env[name]) return { key: env[name]!, source: 'env', name };
+  }
+
+  if (credentials) {
+    const entries: [string, string | undefined][] = [
+      ...(endpoint ? [[endpoint, credentials[endpoint]] as [string, string | undefined]] : []),
+      ['apiKey', credentials.apiKey]
+    ];
+    const found = entries.find(([, key]) => key);
+    if (found) return { key: found[1]!, source: 'file', name: `${file}: ${found[0]}` };
+  }
+
+  const keyringDir = options.keyringDir || getDefaultKeyringDir();
+  for (const name of [...(endpoint ? [endpoint] : []), 'default'] as KeyName[]) {
+    const key = readKeyringKey(keyringDir, name);
+    if (key) return { key, source: 'keyring', name: join(keyringDir, name) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads and validates the credentials file. A missing file is not an error; an
+ * unreadable or invalid one is, so a typo does not silently fall through to another key.
+ */
+export function readCredentialsFile(file: string): CredentialsFile | undefined {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw new Error(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+  const result = CredentialsFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`).join(', ');
+    throw new Error(`Invalid credentials file ${file}: ${issues}`);
+  }
+  return result.data;
+}
+
+/** Whether a key file can be read by other users; always false on Windows, which has no mode bits. */
+export function isShared(file: string): boolean {
+  return process.platform !== 'win32' && (statSync(file).mode & 0o077) !== 0;
+}
+
+// One file per key, readable only by the owner, like the file backends of OS keyrings.
+function readKeyringKey(dir: string, name: KeyName): string | undefined {
+  try {
+    return readFileSync(join(dir, name), 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function storeKeyringKey(dir: string, name: KeyName, key: string): string {
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = join(dir, name);
+  writeFileSync(file, `${key.trim()}\n`, { mode: 0o600 });
+  // The mode option only applies to new files.
+  chmodSync(file, 0o600);
+  return file;
+}
+
+export function eraseKeyringKey(dir: string, name: KeyName): void {
+  rmSync(join(dir, name), { force: true });
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+type DiffOp = { type: ' ' | '-' | '+'; text: string };
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Produces a unified diff (as `diff -u` / `git apply` expect) between two texts.
+ * Returns an empty string when they are identical.
+ */
+export function createUnifiedDiff(before: string, after: string, path: string): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (ops.every(op => op.type === ' ')) return '';
+
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+  for (const hunk of groupHunks(ops)) {
+    lines.push(...hunk);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Common prefix and suffix are matched directly; only the changed middle goes through the LCS table.
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const width = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * width);
+
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(text => ({ type: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ type: ' ', text: midA[i] });
+      i++;
+      j++;
+    } else if (j < midB.length && (i === midA.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      ops.push({ type: '+', text: midB[j++] });
+    } else {
+      ops.push({ type: '-', text: midA[i++] });
+    }
+  }
+  ops.push(...a.slice(endA).map(text => ({ type: ' ' as const, text })));
+
+  return ops;
+}
+
+function groupHunks(ops: DiffOp[]): string[][] {
+  const hunks: string[][] = [];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, k) => k >= index && op.type !== ' ');
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    for (let k = index; k < start; k++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Extend the hunk until there are more than 2 * CONTEXT_LINES unchanged lines in a row.
+    let end = firstChange;
+    let unchanged = 0;
+    for (let k = firstChange; k < ops.length; k++) {
+      if (ops[k].type === ' ') {
+        unchanged++;
+        if (unchanged > CONTEXT_LINES * 2) break;
+      } else {
+        unchanged = 0;
+        end = k;
+      }
+    }
+    const stop = Math.min(ops.length, end + 1 + CONTEXT_LINES);
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = start; k < stop; k++) {
+      body.push(ops[k].type + ops[k].text);
+      if (ops[k].type !== '+') oldCount++;
+      if (ops[k].type !== '-') newCount++;
+    }
+
+    const range = (line: number, count: number) => `${count === 0 ? line - 1 : line},${count}`;
+    hunks.push([`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`, ...body]);
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = stop;
+  }
+
+  return hunks;
+}
\ No newline at end of file
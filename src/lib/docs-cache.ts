@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export type DocsSource = 'live' | 'cached' | 'bundled';
+
+export interface DocsResult {
+  content: string;
+  source: DocsSource;
+  fetchedAt?: string;
+  lastUpdated?: string;
+  version?: string;
+  stale?: boolean;
+  /** Set when no bundled guide matched the topic and other bundled docs were returned instead. */
+  fallback?: boolean;
+}
+
+export interface DocsCacheEntry {
+  content: string;
+  etag?: string;
+  lastUpdated?: string;
+  version?: string;
+  fetchedAt: string;
+}
+
+export interface DocsCacheKey {
+  baseUrl: string;
+  topic: string;
+  context?: string;
+  version?: string;
+}
+
+export const DEFAULT_DOCS_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * `$XDG_CACHE_HOME/nativelink-mcp`, or `~/.cache/nativelink-mcp` when it is unset.
+ */
+export function getDefaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, 'nativelink-mcp');
+}
+
+/**
+ * One JSON file per topic/context/version under `<cacheDir>/docs`. Reads and writes never
+ * throw: a missing or unwritable cache only means the docs API is asked every time.
+ */
+export class DocsCache {
+  private dir: string;
+  private ttlMs: number;
+
+  constructor(cacheDir: string = getDefaultCacheDir(), ttlSeconds: number = DEFAULT_DOCS_TTL_SECONDS) {
+    this.dir = join(cacheDir, 'docs');
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  read(key: DocsCacheKey): DocsCacheEntry | undefined {
+    try {
+      const entry = JSON.parse(readFileSync(this.pathFor(key), 'utf-8')) as DocsCacheEntry;
+      return typeof entry.content === 'string' && entry.fetchedAt ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  write(key: DocsCacheKey, entry: DocsCacheEntry): void {
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      // Write then rename, so a concurrent reader never sees half a file.
+      const path = this.pathFor(key);
+      const temp = `${path}.${process.pid}.tmp`;
+      writeFileSync(temp, JSON.stringify(entry));
+      renameSync(temp, path);
+    } catch {
+      // Caching is best effort.
+    }
+  }
+
+  isFresh(entry: DocsCacheEntry, now = Date.now()): boolean {
+    return now - Date.parse(entry.fetchedAt) < this.ttlMs;
+  }
+
+  private pathFor(key: DocsCacheKey): string {
+    const id = [key.baseUrl, key.topic, key.context || '', key.version || ''].join('\n');
+    return join(this.dir, `${createHash('sha256').update(id).digest('hex').slice(0, 32)}.json`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,487 @@
+import type { DocsTopic } from './types.js';
+
+export const DOCS_URI_PREFIX = 'nativelink://docs/';
+
+export interface DocPage {
+  id: string;
+  content: string;
+}
+
+export interface ReferencePage extends DocPage {
+  title: string;
+  description: string;
+}
+
+/**
+ * Topic guides returned by `get-nativelink-docs` when the docs API is unavailable.
+ */
+export const OFFLINE_DOCS: Record<DocsTopic, string> = {
+  setup: `# Nativelink Cloud Setup Guide
+
+## Quick Start with Nativelink Cloud
+
+1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
+   - Create your free account
+   - Get your API keys and personalized configuration
+
+2. **Get your .bazelrc configuration**:
+   After signing up, you'll receive a personalized configuration like:
+   \`\`\`
+   build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
+   build --remote_header=x-nativelink-api-key=YOUR_API_KEY
+   build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
+   build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
+   build --bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build
+   build --remote_timeout=600
+   build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
+   \`\`\`
+
+3. **Add to your project**:
+   - Append the configuration to your \`.bazelrc\`
+   - Or create a \`.bazelrc.user\` file (gitignored)
+
+4. **Run your build**:
+   \`\`\`bash
+   bazel build //...
+   \`\`\`
+
+   Your builds will now use Nativelink Cloud for caching and remote execution!
+
+## Features
+- ⚡ Instant cache hits across your team
+- 🚀 Remote execution on powerful cloud machines
+- 📊 Build analytics and insights at app.nativelink.com
+- 🔒 Secure, isolated build environments`,
+
+  migration: `# Migration to Nativelink Cloud
+
+## From Local Builds
+
+1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
+
+2. **Baseline your current performance**:
+   \`\`\`bash
+   bazel build --profile=baseline.prof //...
+   \`\`\`
+
+3. **Add your Nativelink Cloud configuration**:
+   Get your personalized config from the dashboard and add to \`.bazelrc\`:
+   \`\`\`
+   # From app.nativelink.com dashboard
+   build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
+   build --remote_header=x-nativelink-api-key=YOUR_API_KEY
+   build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
+   build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
+   \`\`\`
+
+4. **Test with read-only cache first**:
+   \`\`\`
+   build --remote_upload_local_results=false
+   \`\`\`
+
+5. **Enable full caching and remote execution**:
+   \`\`\`
+   build --remote_upload_local_results=true
+   build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
+   \`\`\`
+
+## From Other Remote Caches
+
+Nativelink Cloud is compatible with standard Remote Execution API:
+1. Replace your cache endpoints with Nativelink Cloud URLs
+2. Update authentication to use Nativelink API keys
+3. No changes needed to BUILD files or rules`,
+
+  optimization: `# Nativelink Performance Optimization
+
+## Cache Optimization
+
+1. **Increase cache hit rate**:
+   - Use \`--experimental_strict_action_env\` for reproducible builds
+   - Set \`--incompatible_strict_action_env=true\`
+   - Configure proper toolchains
+
+2. **Network optimization**:
+   \`\`\`
+   build --remote_timeout=60
+   build --remote_retries=3
+   build --remote_max_connections=200
+   \`\`\`
+
+3. **Parallel execution**:
+   \`\`\`
+   build --jobs=auto
+   build --remote_executor=grpc://executor.nativelink.com:443
+   \`\`\`
+
+## Cost Optimization
+
+- Use \`--remote_download_minimal\` to reduce bandwidth
+- Enable compression: \`--experimental_remote_cache_compression\`
+- Set appropriate \`--remote_instance_name\` for isolation`,
+
+  troubleshooting: `# Nativelink Troubleshooting
+
+## Common Issues
+
+### Authentication Errors
+- Verify API key is set correctly
+- Check network connectivity
+- Ensure firewall allows gRPC traffic (port 443/50051)
+
+### Cache Misses
+- Check for non-hermetic actions
+- Verify toolchain configuration
+- Compare \`--execution_log_json_file\` output from two builds with the \`analyze-cache-misses\` tool
+
+### Slow Builds
+- Monitor with \`--experimental_remote_grpc_log\`
+- Check network latency to cache
+- Optimize large artifact handling
+
+### Debug Commands
+\`\`\`bash
+# Enable verbose logging
+bazel build --remote_grpc_log=grpc.log //...
+
+# Profile build performance
+bazel build --profile=profile.json --generate_json_trace_profile //...
+
+# Check cache status
+grpcurl -H "x-nativelink-api-key: YOUR_KEY" cache.nativelink.com:443 list
+\`\`\``,
+
+  api: `# Nativelink Cloud API Reference
+
+## Getting Your Configuration
+
+1. **Sign up at [app.nativelink.com](https://app.nativelink.com)**
+2. **Navigate to Dashboard > API Keys**
+3. **Copy your personalized .bazelrc configuration**
+
+## Your Personalized Configuration
+
+Your configuration from app.nativelink.com includes:
+
+### Cache Service
+\`\`\`
+build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net
+build --remote_header=x-nativelink-api-key=YOUR_CACHE_API_KEY
+\`\`\`
+
+### Build Event Service (BES)
+\`\`\`
+build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net
+build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY
+build --bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build
+\`\`\`
+
+### Remote Execution
+\`\`\`
+build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443
+build --remote_timeout=600
+\`\`\`
+
+## Optional Optimizations
+
+Add these for better performance:
+\`\`\`
+build --remote_download_minimal
+build --experimental_remote_cache_compression
+build --jobs=200
+\`\`\`
+
+## Monitoring
+
+View your builds at: https://app.nativelink.com/builds`
+};
+
+// Reference material for self-hosted clusters and Bazel flags, served as resources and through search.
+export const REFERENCE_PAGES: ReferencePage[] = [
+  {
+    id: 'stores',
+    title: 'Store Configuration',
+    description: 'Memory, filesystem and object stores, eviction policies and store composition',
+    content: `# Store Configuration
+
+Stores hold CAS blobs and action cache entries. Each entry in the \`stores\` list of \`config.json5\` has a \`name\` and exactly one store type. Other stores, services and workers refer to it by that name.
+
+## Memory Store
+
+\`memory\` keeps blobs in RAM and is the usual fast tier of a \`fast_slow\` store.
+
+\`\`\`json5
+{ memory: { eviction_policy: { max_bytes: 2147483648 } } }
+\`\`\`
+
+Contents are lost on restart, so do not use a memory store alone for the action cache of a shared cluster.
+
+## Filesystem Store
+
+\`filesystem\` stores blobs as files under \`content_path\` and writes partial uploads to \`temp_path\`. Both paths must be on the same filesystem so finished uploads can be renamed into place.
+
+\`\`\`json5
+{
+  filesystem: {
+    content_path: "/data/nativelink/cas/content",
+    temp_path: "/data/nativelink/cas/tmp",
+    eviction_policy: { max_bytes: 214748364800 }
+  }
+}
+\`\`\`
+
+On startup the store scans \`content_path\` and rebuilds its eviction index, so large caches take a moment to become ready.
+
+## Eviction Policy
+
+\`memory\` and \`filesystem\` stores accept an \`eviction_policy\`. Items are evicted in least recently used order once any limit is exceeded:
+
+- \`max_bytes\`: total size of stored items
+- \`evict_bytes\`: extra bytes to free once \`max_bytes\` is hit, so eviction runs in batches instead of on every insert
+- \`max_seconds\`: evict items not accessed for this long
+- \`max_count\`: maximum number of items
+
+Leave headroom between \`max_bytes\` and the disk or memory actually available. Temporary files and filesystem overhead are not counted.
+
+## S3 and GCS Object Stores
+
+\`experimental_cloud_object_store\` keeps blobs in a bucket. Set \`provider\` to \`aws\` or \`gcs\`:
+
+\`\`\`json5
+{
+  experimental_cloud_object_store: {
+    provider: "aws",
+    region: "us-east-1",
+    bucket: "nativelink-cas",
+    key_prefix: "cas/",
+    retry: { max_retries: 6, delay: 0.3, jitter: 0.5 }
+  }
+}
+\`\`\`
+
+Credentials come from the usual SDK sources: environment variables, instance profiles or workload identity.
+
+## Object Store Eviction
+
+Object stores do not take an \`eviction_policy\`; NativeLink never deletes from the bucket. Expire old blobs with a bucket lifecycle rule instead, for example an S3 lifecycle rule or GCS Object Lifecycle Management that deletes objects under the \`cas/\` and \`ac/\` prefixes some days after creation.
+
+Expire the action cache prefix before, or together with, the CAS prefix. An action result whose outputs were deleted from the CAS makes Bazel fail with missing digests until the entry is rewritten. Pair the object store with a \`fast_slow\` memory or filesystem tier so hot blobs stay local.
+
+## Fast/Slow Store
+
+\`fast_slow\` layers a small fast store over a large slow one. Reads check \`fast\` first and copy hits from \`slow\` into \`fast\`. Writes go to both.
+
+\`\`\`json5
+{
+  fast_slow: {
+    fast: { memory: { eviction_policy: { max_bytes: 1073741824 } } },
+    slow: { filesystem: { content_path: "/data/cas", temp_path: "/data/tmp", eviction_policy: { max_bytes: 53687091200 } } }
+  }
+}
+\`\`\`
+
+Workers use a \`fast_slow\` store whose fast tier is a local \`filesystem\` store and whose slow tier is a \`ref_store\` to the main CAS.
+
+## Verify, Dedup and Compression
+
+- \`verify\` checks the size and hash of uploaded blobs (\`verify_size\`, \`verify_hash\`) before passing them to \`backend\`. Put it in front of the CAS so corrupt uploads are rejected.
+- \`dedup\` splits large blobs into content-defined chunks (\`min_size\`, \`normal_size\`, \`max_size\`). Chunks go to \`content_store\` and chunk lists go to \`index_store\`. This saves space when large outputs change only slightly between builds.
+- \`compression\` compresses blobs with \`lz4\` before writing them to \`backend\`. It is useful in front of object stores, where bytes cost money.
+
+## Ref Store and Size Partitioning
+
+- \`ref_store\` points at another named store, so one store definition can be shared by several services.
+- \`size_partitioning\` sends blobs smaller than \`size\` to \`lower_store\` and larger ones to \`upper_store\`. For example, small blobs can go to memory and large ones to disk.`
+  },
+  {
+    id: 'schedulers',
+    title: 'Scheduler Configuration',
+    description: 'The simple scheduler, platform property matching and cache lookups',
+    content: `# Scheduler Configuration
+
+Schedulers match queued actions to workers. They are listed under \`schedulers\` in \`config.json5\` and referenced by name from the \`execution\` service and from \`worker_api\`.
+
+## Simple Scheduler
+
+\`\`\`json5
+{
+  name: "MAIN_SCHEDULER",
+  simple: {
+    supported_platform_properties: {
+      cpu_count: "minimum",
+      memory_kb: "minimum",
+      OSFamily: "priority",
+      "container-image": "priority"
+    },
+    max_job_retries: 3,
+    worker_timeout_s: 30
+  }
+}
+\`\`\`
+
+- \`worker_timeout_s\`: a worker that has not sent a keepalive for this long is removed, and its actions are requeued
+- \`max_job_retries\`: how often an action is retried after internal errors before it fails
+- \`retain_completed_for_s\`: how long finished action results stay queryable by clients that reconnect
+- \`allocation_strategy\`: \`least_recently_used\` (the default) spreads work across workers; \`most_recently_used\` keeps hot workers busy so idle ones can scale down
+
+## Platform Properties
+
+Every key a client sends in \`exec_properties\`, or in the \`exec_properties\` of a Bazel platform, must appear in \`supported_platform_properties\`. Otherwise the action is rejected. Each key names a matching rule:
+
+- \`minimum\`: the worker's numeric value must be at least the requested value (for example \`cpu_count\`)
+- \`exact\`: the values must be equal
+- \`priority\`: used when choosing between matching workers but never excludes a worker
+- \`ignore\`: accepted from clients but not used for matching
+
+Workers advertise their values in \`platform_properties\`. They can be fixed \`values\` or a \`query_cmd\`, such as \`nproc\`, that is run at startup.
+
+## Cache Lookup Scheduler
+
+\`cache_lookup\` wraps another scheduler and answers from the action cache before queueing. This helps when clients send execute requests without checking the cache first.`
+  },
+  {
+    id: 'workers',
+    title: 'Worker Configuration',
+    description: 'Local workers, their CAS and work directory, and worker sizing',
+    content: `# Worker Configuration
+
+Workers run actions. A \`local\` worker connects to the scheduler's \`worker_api\` endpoint and runs actions in subdirectories of \`work_directory\`.
+
+## Local Worker
+
+\`\`\`json5
+{
+  local: {
+    worker_api_endpoint: { uri: "grpc://scheduler:50061" },
+    cas_fast_slow_store: "WORKER_FAST_SLOW_STORE",
+    upload_action_result: { ac_store: "AC_MAIN_STORE" },
+    work_directory: "/data/nativelink/work",
+    platform_properties: {
+      cpu_count: { query_cmd: "nproc" },
+      OSFamily: { values: ["Linux"] }
+    }
+  }
+}
+\`\`\`
+
+- \`cas_fast_slow_store\` must be a \`fast_slow\` store whose fast tier is a \`filesystem\` store on the same disk as \`work_directory\`. Inputs are hardlinked from it into each action directory.
+- \`upload_action_result.ac_store\` is where successful results are written, so later builds get cache hits
+- \`max_action_timeout\` caps the timeout a client can request
+- \`entrypoint\` wraps every command. Use it to run actions inside a container or sandbox
+
+## Worker Sizing
+
+Each worker runs as many actions at once as the scheduler assigns it. Keep the local CAS large enough for the inputs of all concurrent actions, and give the scheduler platform properties such as \`cpu_count\` and \`memory_kb\` so large actions land on large machines. A cluster with fewer, larger workers reuses more of its local cache than one with many small workers.`
+  },
+  {
+    id: 'servers',
+    title: 'Servers, Services and TLS',
+    description: 'Listeners, services, instance names, TLS and global settings',
+    content: `# Servers, Services and TLS
+
+The \`servers\` list defines gRPC listeners and the services each one exposes. NativeLink deployments usually expose a public listener for clients and a separate internal listener for workers.
+
+## Services
+
+- \`cas\`, \`ac\`, \`bytestream\` and \`capabilities\`: the Remote Execution API cache services. Each is keyed by instance name
+- \`execution\`: accepts remote execution requests and forwards them to a scheduler
+- \`worker_api\`: the endpoint workers connect to. Keep it off the public listener
+- \`health\`: a gRPC health check, used by Kubernetes probes and load balancers
+- \`admin\`: maintenance endpoints
+- \`experimental_prometheus\`: Prometheus metrics over HTTP
+
+## Instance Names
+
+Services are configured per instance name, such as \`main\`. Bazel must send the same name with \`--remote_instance_name=main\`, or requests fail with an unknown instance error. Use separate instance names to keep the caches of unrelated projects or trust domains apart.
+
+## TLS and mTLS
+
+Add \`tls\` to a listener to serve gRPC over TLS. Set \`cert_file\` and \`key_file\` for the server certificate. Add \`client_ca_file\` to require client certificates (mTLS).
+
+Bazel then connects with \`grpcs://\`. If the server certificate comes from a private CA, pass \`--tls_certificate=<ca.pem>\`. For mTLS, pass \`--tls_client_certificate\` and \`--tls_client_key\`.
+
+## Global Settings
+
+- \`max_open_files\`: limits the file descriptors NativeLink uses for filesystem stores. Keep it below \`ulimit -n\`
+- \`default_digest_hash_function\`: \`sha256\` (the default) or \`blake3\`. Bazel must use the same function (\`--digest_function=blake3\`)`
+  },
+  {
+    id: 'bazel-flags',
+    title: 'Bazel Remote Flags',
+    description: 'Connection, transfer, hermeticity and debugging flags for remote builds',
+    content: `# Bazel Remote Flags
+
+Reference for the Bazel flags used with NativeLink. Flags can be set in \`.bazelrc\` and grouped with \`build:<name>\` so a team opts in with \`--config=<name>\`.
+
+## Connection Flags
+
+- \`--remote_cache=grpcs://host\`: cache endpoint. \`grpc://\` is plaintext and \`grpcs://\` uses TLS; an address without a scheme defaults to \`grpcs://\`
+- \`--remote_executor=grpcs://host:443\`: scheduler endpoint for remote execution. If no cache is set, the executor endpoint also serves as the cache
+- \`--remote_instance_name=main\`: instance name sent with every request
+- \`--remote_header=x-nativelink-api-key=KEY\`: header for the cache and executor. \`--bes_header\` does the same for BES
+- \`--credential_helper=*.nativelink.net=/path/to/helper\`: obtains headers from a helper program, so keys stay out of \`.bazelrc\`
+- \`--remote_timeout=600\`: seconds before a remote call is abandoned
+
+## Download and Upload Flags
+
+- \`--remote_download_outputs=minimal\` (or \`--remote_download_minimal\`) downloads only what is needed locally. This is the biggest bandwidth saver with remote execution
+- \`--remote_download_outputs=toplevel\` also downloads the outputs of the targets you asked for
+- \`--remote_upload_local_results=false\` makes the cache read-only for this client, which is useful for laptops while CI populates the cache
+- \`--remote_cache_compression\` compresses transfers with zstd (spelled \`--experimental_remote_cache_compression\` before Bazel 7)
+- \`--remote_cache_async\` uploads results in the background (spelled \`--experimental_remote_cache_async\` before Bazel 7)
+- \`--remote_max_connections=200\` raises the number of concurrent gRPC connections
+
+## Hermeticity Flags
+
+- \`--incompatible_strict_action_env\` gives actions a fixed \`PATH\` instead of your shell's, so cache keys match across machines
+- \`--action_env=NAME=value\` pins an environment variable explicitly
+- \`--host_platform\` and \`--extra_execution_platforms\` select the platforms used for remote actions
+
+## Debugging Flags
+
+- \`--execution_log_json_file=exec.json\` writes every spawn with its inputs and cache status. Compare two logs with the \`analyze-cache-misses\` tool
+- \`--execution_log_compact_file=exec.binpb.zst\` is the smaller Bazel 7.1+ format. Convert it to JSON before analysis
+- \`--build_event_json_file=bep.json\` writes the Build Event Protocol stream. Summarize it with \`analyze-build-events\`
+- \`--profile=profile.json --generate_json_trace_profile\` records the critical path and phase timings for \`analyze-build-performance\`
+- \`--remote_grpc_log=grpc.log\` logs every remote call (spelled \`--experimental_remote_grpc_log\` before Bazel 6)`
+  },
+  {
+    id: 'deployment',
+    title: 'Self-Hosted Deployment',
+    description: 'Ports, Kubernetes layout, scaling and monitoring for self-hosted clusters',
+    content: `# Self-Hosted Deployment
+
+NativeLink runs as a single binary that reads \`config.json5\`. The same binary can act as CAS, scheduler and worker, or you can run those roles as separate deployments.
+
+## Ports
+
+The generated configurations use:
+
+- \`50051\`: public listener with CAS, action cache, execution, capabilities and bytestream
+- \`50052\`: CAS-only listener for clients that never execute remotely
+- \`50061\`: internal \`worker_api\` listener for workers
+- \`9090\`: Prometheus metrics when monitoring is enabled
+
+## Kubernetes
+
+Run \`config.json5\` from a ConfigMap mounted at \`/etc/nativelink\`. Use a \`StatefulSet\` or a persistent volume for filesystem stores, so the cache survives restarts. Put workers in their own Deployment, so they can scale independently from the CAS. A HorizontalPodAutoscaler on worker CPU is a reasonable start; a scheduler-queue metric is better once monitoring is in place.
+
+## Scaling
+
+- CAS throughput is usually limited by disk and network, not CPU. Use local NVMe for the fast tier
+- Scheduler load grows with the number of queued actions, not with cache traffic
+- Worker count sets how many actions run in parallel. Bazel \`--jobs\` should be at least the total number of worker slots
+
+## Monitoring
+
+Scrape the \`experimental_prometheus\` endpoint. Watch CAS hit ratios, eviction rates, scheduler queue depth and worker counts. Rising evictions together with falling hit rates mean the store is too small for the working set.`
+  }
+];
+
+/**
+ * Every bundled page, keyed by the id used in `nativelink://docs/<id>` resource URIs.
+ */
+export const DOCS_PAGES: DocPage[] = [
+  ...Object.entries(OFFLINE_DOCS).map(([id, content]) => ({ id, content })),
+  ...REFERENCE_PAGES
+];
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { NATIVELINK_CLOUD } from './flags.js';
+import { INSTANCE_NAME } from './server-config.js';
+
+export interface EndpointOptions {
+  nativelinkUrl?: string;
+  casUrl?: string;
+  schedulerUrl?: string;
+  besUrl?: string;
+  instanceName?: string;
+  tlsCertificate?: string;
+  tlsClientCertificate?: string;
+  tlsClientKey?: string;
+}
+
+export interface ResolvedEndpoints {
+  cas: string;
+  scheduler: string;
+  bes: string;
+  resultsUrl?: string;
+  instanceName?: string;
+  selfHosted: boolean;
+  tls: {
+    certificate?: string;
+    clientCertificate?: string;
+    clientKey?: string;
+  };
+}
+
+export const CLOUD_HOST_SUFFIX = '.nativelink.net';
+
+/**
+ * Picks the CAS, scheduler and BES endpoints for a generated config. Each service
+ * falls back to `nativelinkUrl` and then to NativeLink Cloud. Self-hosted clusters
+ * default to the `main` instance name used by `generate-deployment-config`.
+ */
+export function resolveEndpoints(options: EndpointOptions): ResolvedEndpoints {
+  const cas = options.casUrl || options.nativelinkUrl;
+  const scheduler = options.schedulerUrl || options.nativelinkUrl;
+  const bes = options.besUrl || options.nativelinkUrl;
+  const selfHosted = [cas, scheduler, bes].some(url => url && !isCloudEndpoint(url));
+
+  const resolved = {
+    cas: cas ? toGrpcUrl(cas) : NATIVELINK_CLOUD.cas,
+    scheduler: scheduler ? toGrpcUrl(scheduler) : NATIVELINK_CLOUD.scheduler,
+    bes: bes ? toGrpcUrl(bes) : NATIVELINK_CLOUD.bes
+  };
+
+  return {
+    ...resolved,
+    resultsUrl: isCloudEndpoint(resolved.bes) ? NATIVELINK_CLOUD.resultsUrl : undefined,
+    instanceName: options.instanceName || (selfHosted ? INSTANCE_NAME : undefined),
+    selfHosted,
+    tls: {
+      certificate: options.tlsCertificate,
+      clientCertificate: options.tlsClientCertificate,
+      clientKey: options.tlsClientKey
+    }
+  };
+}
+
+export function isCloudEndpoint(url: string): boolean {
+  const host = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').split(/[:/]/)[0];
+  return host.endsWith(CLOUD_HOST_SUFFIX);
+}
+
+/**
+ * Normalizes an endpoint to the grpc:// or grpcs:// form Bazel expects. Like Bazel,
+ * an address without a scheme is treated as grpcs.
+ */
+export function toGrpcUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  const match = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\/(.+)$/i);
+  if (!match) {
+    return `grpcs://${trimmed}`;
+  }
+
+  const [, scheme, rest] = match;
+  switch (scheme.toLowerCase()) {
+    case 'grpc':
+    case 'http':
+      return `grpc://${rest}`;
+    case 'grpcs':
+    case 'https':
+      return `grpcs://${rest}`;
+    case 'unix':
+      return trimmed;
+    default:
+      throw new Error(`Unsupported endpoint scheme "${scheme}" in ${url} (use grpc://, grpcs:// or unix://)`);
+  }
+}
\ No newline at end of file
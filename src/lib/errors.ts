@@ -0,0 +1,105 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Builds an McpError whose message is only `message`. McpError prefixes its message with
+ * `MCP error <code>: `, the SDK sends the message as is, and the client adds the prefix again.
+ */
+export function createMcpError(code: ErrorCode, message: string, data?: unknown): McpError {
+  const error = new McpError(code, message, data);
+  error.message = message;
+  return error;
+}
+
+/**
+ * A failed Nativelink API call. `code` is the API's own error code
+ * (`{"error": {"code": ...}}`) or one derived from the HTTP status.
+ */
+export class NativelinkApiError extends Error {
+  readonly status?: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(message: string, options: { status?: number; code?: string; details?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code || 'API_ERROR';
+    this.details = options.details;
+  }
+
+  get mcpErrorCode(): ErrorCode {
+    return ErrorCode.InternalError;
+  }
+
+  toMcpError(): McpError {
+    return createMcpError(this.mcpErrorCode, `Nativelink API: ${this.message}`, this.errorData());
+  }
+
+  protected errorData(): Record<string, unknown> {
+    return {
+      code: this.code,
+      ...(this.status !== undefined && { status: this.status }),
+      ...(this.details !== undefined && { details: this.details })
+    };
+  }
+}
+
+export class ApiTimeoutError extends NativelinkApiError {
+  get mcpErrorCode(): ErrorCode {
+    return ErrorCode.RequestTimeout;
+  }
+}
+
+export class ApiNetworkError extends NativelinkApiError {}
+
+export class ApiAuthError extends NativelinkApiError {
+  get mcpErrorCode(): ErrorCode {
+    return ErrorCode.InvalidRequest;
+  }
+}
+
+export class ApiNotFoundError extends NativelinkApiError {
+  get mcpErrorCode(): ErrorCode {
+    return ErrorCode.InvalidParams;
+  }
+}
+
+export class ApiValidationError extends NativelinkApiError {
+  get mcpErrorCode(): ErrorCode {
+    return ErrorCode.InvalidParams;
+  }
+}
+
+export class ApiRateLimitError extends NativelinkApiError {
+  /** Milliseconds until the API accepts requests again, when it said so. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; code?: string; details?: unknown; retryAfterMs?: number } = {}) {
+    super(message, { ...options, code: options.code || 'RATE_LIMIT_EXCEEDED' });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  protected errorData(): Record<string, unknown> {
+    return {
+      ...super.errorData(),
+      ...(this.retryAfterMs !== undefined && { retryAfterSeconds: Math.ceil(this.retryAfterMs / 1000) })
+    };
+  }
+}
+
+export class ApiServerError extends NativelinkApiError {}
+
+/** Picks the error class for a non-2xx response. */
+export function errorForStatus(
+  status: number,
+  message: string,
+  options: { code?: string; details?: unknown; retryAfterMs?: number } = {}
+): NativelinkApiError {
+  const withCode = (fallback: string) => ({ ...options, status, code: options.code || fallback });
+  if (status === 401 || status === 403) return new ApiAuthError(message, withCode('UNAUTHORIZED'));
+  if (status === 404) return new ApiNotFoundError(message, withCode('NOT_FOUND'));
+  if (status === 429) return new ApiRateLimitError(message, withCode('RATE_LIMIT_EXCEEDED'));
+  if (status === 400 || status === 422) return new ApiValidationError(message, withCode('INVALID_REQUEST'));
+  if (status >= 500) return new ApiServerError(message, withCode('SERVER_ERROR'));
+  return new NativelinkApiError(message, withCode('API_ERROR'));
+}
\ No newline at end of file
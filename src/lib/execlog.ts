@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { gunzipSync } from 'zlib';
+
+/**
+ * Subset of Bazel's `SpawnExec` message as written by `--execution_log_json_file`.
+ */
+export interface SpawnExec {
+  commandArgs?: string[];
+  environmentVariables?: { name: string; value: string }[];
+  platform?: { properties?: { name: string; value: string }[] };
+  inputs?: { path: string; digest?: { hash?: string }; isTool?: boolean }[];
+  listedOutputs?: string[];
+  actualOutputs?: { path: string; digest?: { hash?: string } }[];
+  remotable?: boolean;
+  cacheable?: boolean;
+  remoteCacheHit?: boolean;
+  cacheHit?: boolean;
+  mnemonic?: string;
+  targetLabel?: string;
+  runner?: string;
+  digest?: { hash?: string };
+}
+
+export function readExecutionLog(content?: string, path?: string): SpawnExec[] {
+  let text: string;
+  if (path) {
+    const bytes = readFileSync(path);
+    text = bytes[0] === 0x1f && bytes[1] === 0x8b
+      ? gunzipSync(bytes).toString('utf8')
+      : bytes.toString('utf8');
+  } else if (content) {
+    text = content;
+  } else {
+    throw new Error('Either log content or a log path is required');
+  }
+
+  if (!/^\s*[[{]/.test(text)) {
+    throw new Error(
+      'Execution log is not JSON. Compact logs (--execution_log_compact_file) must be converted first: ' +
+      'bazel run //src/tools/execlog:converter -- --input=compact:exec.log --output=json:exec.json'
+    );
+  }
+
+  return parseConcatenatedJson(text) as SpawnExec[];
+}
+
+/**
+ * Bazel writes the JSON execution log as a stream of pretty-printed objects
+ * without separators, so it cannot be handed to `JSON.parse` as a whole.
+ */
+export function parseConcatenatedJson(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed) as unknown[];
+  }
+
+  const values: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        values.push(JSON.parse(trimmed.slice(start, i + 1)));
+      }
+    }
+  }
+
+  if (depth !== 0) {
+    throw new Error('Execution log ends with an incomplete JSON object');
+  }
+
+  return values;
+}
+
+export function getSpawnKey(spawn: SpawnExec): string {
+  const outputs = [...(spawn.listedOutputs || [])].sort();
+  return `${spawn.targetLabel || '<unknown>'}|${spawn.mnemonic || ''}|${outputs[0] || ''}`;
+}
+
+export function isCacheHit(spawn: SpawnExec): boolean {
+  return Boolean(spawn.remoteCacheHit || spawn.cacheHit);
+}
\ No newline at end of file
@@ -0,0 +1,177 @@
+export const NATIVELINK_CLOUD = {
+  cas: 'grpcs://cas-tracemachina-shared.build-faster.nativelink.net',
+  bes: 'grpcs://bes-tracemachina-shared.build-faster.nativelink.net',
+  scheduler: 'grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443',
+  resultsUrl: 'https://app.nativelink.com/a/YOUR_BUILD_ID/build'
+};
+
+export const API_KEY_HEADER = 'x-nativelink-api-key';
+
+export const API_KEY_PLACEHOLDER = 'YOUR_API_KEY_FROM_APP_NATIVELINK_COM';
+export const BES_API_KEY_PLACEHOLDER = 'YOUR_BES_API_KEY_FROM_APP_NATIVELINK_COM';
+
+export interface FlagCompatibility {
+  legacyName?: string;
+  renamedIn?: number;
+  legacyRemovedIn?: number;
+  addedIn?: number;
+  removedIn?: number;
+}
+
+export const DEFAULT_BAZEL_MAJOR = 7;
+export const LATEST_BAZEL_MAJOR = 8;
+
+/**
+ * Flag spellings by Bazel major version, keyed by the current name. Generators
+ * write the current name and run their output through `adaptFlagLines`.
+ */
+export const FLAG_COMPATIBILITY: Record<string, FlagCompatibility> = {
+  remote_cache_compression: { legacyName: 'experimental_remote_cache_compression', renamedIn: 7, legacyRemovedIn: 8 },
+  remote_cache_async: { legacyName: 'experimental_remote_cache_async', renamedIn: 7, legacyRemovedIn: 8 },
+  remote_build_event_upload: { legacyName: 'experimental_remote_build_event_upload', renamedIn: 7, legacyRemovedIn: 8, addedIn: 6 },
+  remote_grpc_log: { legacyName: 'experimental_remote_grpc_log', renamedIn: 6, legacyRemovedIn: 8 }
+};
+
+/**
+ * Flags that Bazel has renamed. The old spelling keeps working for a while
+ * but is eventually removed, so configs should use the replacement.
+ */
+export const RENAMED_FLAGS: Record<string, string> = {
+  ...Object.fromEntries(
+    Object.entries(FLAG_COMPATIBILITY)
+      .filter(([, info]) => info.legacyName)
+      .map(([name, info]) => [info.legacyName!, name])
+  ),
+  experimental_strict_action_env: 'incompatible_strict_action_env',
+  experimental_generate_json_trace_profile: 'generate_json_trace_profile'
+};
+
+/**
+ * Removed flags whose replacement takes a different kind of value, so they cannot be
+ * rewritten automatically. Each maps to a hint on how to migrate.
+ */
+export const REPLACED_FLAGS: Record<string, string> = {
+  javabase: 'Define a `local_java_repository` or use a remotejdk, then pass `--java_runtime_version=<name>`; it takes a version or repository name, not a label',
+  host_javabase: 'Define a `local_java_repository` or use a remotejdk, then pass `--tool_java_runtime_version=<name>`; it takes a version or repository name, not a label'
+};
+
+/**
+ * Shorthand flags that expand to another flag with a fixed value.
+ */
+export const FLAG_ALIASES: Record<string, { name: string; value: string }> = {
+  remote_download_minimal: { name: 'remote_download_outputs', value: 'minimal' },
+  remote_download_toplevel: { name: 'remote_download_outputs', value: 'toplevel' },
+  remote_download_all: { name: 'remote_download_outputs', value: 'all' }
+};
+
+// Flags whose value may legitimately be given several times (each occurrence adds to a list).
+export const REPEATABLE_FLAGS = new Set([
+  'action_env',
+  'host_action_env',
+  'test_env',
+  'repo_env',
+  'remote_header',
+  'remote_cache_header',
+  'remote_exec_header',
+  'bes_header',
+  'copt',
+  'cxxopt',
+  'host_copt',
+  'host_cxxopt',
+  'linkopt',
+  'host_linkopt',
+  'modify_execution_info',
+  'remote_default_exec_properties',
+  'extra_execution_platforms',
+  'extra_toolchains',
+  'credential_helper',
+  'config',
+  'define',
+  'features',
+  'test_arg',
+  'per_file_copt'
+]);
+
+/**
+ * Extracts the major version from a `.bazelversion` value such as `7.1.0`, `8.x` or `latest`.
+ */
+export function parseBazelMajor(version?: string): number | undefined {
+  if (!version) return undefined;
+  if (/^(latest|rolling|last_green)/.test(version.trim())) return LATEST_BAZEL_MAJOR;
+
+  const match = version.trim().match(/^(\d+)/);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+/**
+ * Returns the spelling of a flag for a Bazel major version, or null if that version has no such flag.
+ */
+export function getFlagSpelling(name: string, major: number): string | null {
+  const canonical = name in FLAG_COMPATIBILITY ? name : (RENAMED_FLAGS[name] || name);
+  const info = FLAG_COMPATIBILITY[canonical];
+  if (!info) return name;
+
+  if (info.addedIn !== undefined && major < info.addedIn) return null;
+  if (info.removedIn !== undefined && major >= info.removedIn) return null;
+  if (info.renamedIn !== undefined && major < info.renamedIn) return info.legacyName!;
+  return canonical;
+}
+
+/**
+ * Spells a `--name[=value]` flag for a Bazel major version, or returns null if that version has no such flag.
+ */
+export function spellFlag(flag: string, major: number): string | null {
+  const [name, value] = flag.replace(/^--/, '').split(/=(.*)/);
+  const spelling = getFlagSpelling(name, major);
+  if (spelling === null) return null;
+  return `--${spelling}${value !== undefined ? `=${value}` : ''}`;
+}
+
+/**
+ * Explains why a Bazel major version has no spelling of a flag, or returns
+ * undefined if it accepts the flag as written.
+ */
+export function getUnsupportedReason(name: string, major: number): string | undefined {
+  const canonical = RENAMED_FLAGS[name] || name;
+  const info = FLAG_COMPATIBILITY[canonical];
+  if (!info) return undefined;
+
+  if (info.addedIn !== undefined && major < info.addedIn) return `requires Bazel ${info.addedIn}+`;
+  if (info.removedIn !== undefined && major >= info.removedIn) return `removed in Bazel ${info.removedIn}`;
+  if (name === info.legacyName && info.legacyRemovedIn !== undefined && major >= info.legacyRemovedIn) {
+    return `removed in Bazel ${info.legacyRemovedIn}; use --${canonical}`;
+  }
+  if (name === canonical && info.renamedIn !== undefined && major < info.renamedIn) {
+    return `Bazel ${major} only knows it as --${info.legacyName}`;
+  }
+  return undefined;
+}
+
+/**
+ * Rewrites `.bazelrc` lines (e.g. `build --remote_cache_compression`) for a Bazel
+ * major version. Renamed flags get the right spelling and unsupported flags are
+ * commented out, each with a comment saying why. Other lines pass through.
+ */
+export function adaptFlagLines(lines: string[], major: number): string[] {
+  return lines.flatMap(line => {
+    const match = line.match(/^(\s*)([a-z]+(?::\S+)?\s+)--([a-z_]+)(.*)$/);
+    if (!match) return [line];
+
+    const [, indent, command, name, rest] = match;
+    const spelling = getFlagSpelling(name, major);
+    if (spelling === name) return [line];
+
+    const canonical = RENAMED_FLAGS[name] || name;
+    const info = FLAG_COMPATIBILITY[canonical];
+    if (spelling === null) {
+      return [`${indent}# ${command}--${name}${rest}  # dropped: ${getUnsupportedReason(name, major)}`];
+    }
+
+    const reason = spelling === info.legacyName
+      ? `Bazel ${major} only knows --${canonical} as --${spelling} (renamed in ${info.renamedIn})`
+      : info.legacyRemovedIn !== undefined && major >= info.legacyRemovedIn
+        ? `--${name} was renamed to --${spelling} in Bazel ${info.renamedIn} and removed in Bazel ${info.legacyRemovedIn}`
+        : `--${name} was renamed to --${spelling} in Bazel ${info.renamedIn}`;
+    return [`${indent}# ${reason}`, `${indent}${command}--${spelling}${rest}`];
+  });
+}
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import type { BuildEventSummary, BuildMetrics, ProfileSummary } from './types.js';
+
+export interface BuildRecord {
+  id: string;
+  recordedAt: string;
+  workspace?: string;
+  commit?: string;
+  branch?: string;
+  invocationId?: string;
+  command?: string;
+  flags?: string[];
+  metrics: BuildMetrics;
+  criticalPathTime?: number;
+  profile?: {
+    totalTime: number;
+    actionCount: number;
+    criticalPathTime: number;
+  };
+}
+
+export interface TrackedMetric {
+  key: 'wallTime' | 'cacheHitRate' | 'criticalPath' | 'bytesTransferred';
+  label: string;
+  better: 'lower' | 'higher';
+  get(record: BuildRecord): number | undefined;
+}
+
+export const TRACKED_METRICS: TrackedMetric[] = [
+  { key: 'wallTime', label: 'Wall time', better: 'lower', get: r => r.metrics.totalTime ?? r.profile?.totalTime },
+  { key: 'cacheHitRate', label: 'Cache hit rate', better: 'higher', get: r => r.metrics.cacheHitRate },
+  { key: 'criticalPath', label: 'Critical path', better: 'lower', get: r => r.criticalPathTime ?? r.profile?.criticalPathTime },
+  { key: 'bytesTransferred', label: 'Bytes transferred', better: 'lower', get: r => r.metrics.networkTransferSize }
+];
+
+export interface Regression {
+  metric: TrackedMetric;
+  baseline: number;
+  latest: number;
+  /** Relative change from the baseline, signed so that positive is worse. */
+  change: number;
+  firstBuild: BuildRecord;
+}
+
+export interface RegressionOptions {
+  /** Builds in the rolling baseline. */
+  window: number;
+  /** Relative change that counts as a regression, e.g. 0.1 for 10%. */
+  threshold: number;
+}
+
+// Flags whose values can carry credentials are stored without their value.
+const SECRET_FLAG = /header|credential|token|key|password|secret/i;
+
+/**
+ * `$XDG_DATA_HOME/nativelink-mcp/history.jsonl`, or under `~/.local/share` when it is unset.
+ */
+export function getDefaultHistoryFile(): string {
+  const base = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
+  return join(base, 'nativelink-mcp', 'history.jsonl');
+}
+
+/**
+ * Analyzed builds, one JSON object per line, oldest first. Appending never rewrites
+ * the file, so several server processes can share it.
+ */
+export class MetricsHistory {
+  readonly file: string;
+  readonly recordByDefault: boolean;
+
+  constructor(file: string = getDefaultHistoryFile(), recordByDefault = false) {
+    this.file = file;
+    this.recordByDefault = recordByDefault;
+  }
+
+  append(record: BuildRecord): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    appendFileSync(this.file, `${JSON.stringify(record)}\n`);
+  }
+
+  /** Skips lines that do not parse, such as a line cut short by a crash. */
+  read(): BuildRecord[] {
+    if (!existsSync(this.file)) return [];
+
+    const records: BuildRecord[] = [];
+    for (const line of readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as BuildRecord;
+        if (record.recordedAt && record.metrics) records.push(record);
+      } catch {
+        continue;
+      }
+    }
+    return records.sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+  }
+}
+
+export function createBuildRecord(options: {
+  metrics: BuildMetrics;
+  events?: BuildEventSummary;
+  profile?: ProfileSummary;
+  workspacePath?: string;
+  commit?: string;
+}): BuildRecord {
+  const { metrics, events, profile } = options;
+  const workspace = options.workspacePath ? resolve(options.workspacePath) : undefined;
+  const git = workspace ? getGitInfo(workspace) : {};
+
+  return {
+    id: events?.invocationId || randomUUID(),
+    recordedAt: new Date().toISOString(),
+    ...(workspace && { workspace }),
+    ...((options.commit || events?.scmRevision || git.commit) && { commit: options.commit || events?.scmRevision || git.commit }),
+    ...(git.branch && { branch: git.branch }),
+    ...(events?.invocationId && { invocationId: events.invocationId }),
+    ...(events?.command && { command: events.command }),
+    ...(events?.commandLine && { flags: redactFlags(events.commandLine) }),
+    metrics,
+    ...(events?.criticalPathTime !== undefined && { criticalPathTime: events.criticalPathTime }),
+    ...(profile && {
+      profile: {
+        totalTime: profile.totalTime,
+        actionCount: profile.actionCount,
+        criticalPathTime: profile.criticalPath.duration
+      }
+    })
+  };
+}
+
+/**
+ * For each tracked metric, checks whether the latest builds are worse than the median
+ * of the `window` builds before them. A regression names the first build of the run of
+ * worse builds that reaches the latest one, which is where to start looking.
+ */
+export function detectRegressions(records: BuildRecord[], options: RegressionOptions): Regression[] {
+  const regressions: Regression[] = [];
+
+  for (const metric of TRACKED_METRICS) {
+    const points = records
+      .map(record => ({ record, value: metric.get(record) }))
+      .filter((p): p is { record: BuildRecord; value: number } => p.value !== undefined);
+    if (points.length <= options.window) continue;
+
+    const latest = points[points.length - 1].value;
+    let found: Regression | undefined;
+
+    for (let start = points.length - 1; start >= options.window; start--) {
+      const baseline = median(points.slice(start - options.window, start).map(p => p.value));
+      const worse = points.slice(start).every(p => relativeChange(metric, baseline, p.value) > options.threshold);
+      if (!worse) break;
+      found = {
+        metric,
+        baseline,
+        latest,
+        change: relativeChange(metric, baseline, latest),
+        firstBuild: points[start].record
+      };
+    }
+
+    if (found) regressions.push(found);
+  }
+
+  return regressions;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function relativeChange(metric: TrackedMetric, baseline: number, value: number): number {
+  if (baseline === 0) return value === 0 ? 0 : (metric.better === 'lower' ? Infinity : -Infinity);
+  const change = (value - baseline) / Math.abs(baseline);
+  return metric.better === 'lower' ? change : -change;
+}
+
+function redactFlags(commandLine: string[]): string[] {
+  return commandLine
+    .filter(arg => arg.startsWith('--'))
+    .map(flag => {
+      const [name, value] = flag.split(/=(.*)/);
+      return value !== undefined && SECRET_FLAG.test(name) ? `${name}=<redacted>` : flag;
+    });
+}
+
+function getGitInfo(path: string): { commit?: string; branch?: string } {
+  const git = (...args: string[]) => {
+    try {
+      return execFileSync('git', args, { cwd: path, timeout: 2000, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    } catch {
+      return undefined;
+    }
+  };
+  const commit = git('rev-parse', 'HEAD');
+  const branch = commit ? git('rev-parse', '--abbrev-ref', 'HEAD') : undefined;
+  return { commit, branch: branch && branch !== 'HEAD' ? branch : undefined };
+}
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { fetch, type Headers } from 'undici';
+import {
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiTimeoutError,
+  NativelinkApiError,
+  errorForStatus
+} from './errors.js';
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** Sent as `X-API-Version`, and as a `/v<version>` path prefix when `versionInPath` is set. */
+  apiVersion?: string;
+  versionInPath?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  /** Longer waits (from `Retry-After` or a rate-limit reset) fail fast instead of blocking the tool call. */
+  maxRetryDelayMs?: number;
+}
+
+export interface ApiRequest {
+  method?: 'GET' | 'POST';
+  path: string;
+  query?: Record<string, string | undefined>;
+  headers?: Record<string, string>;
+  body?: unknown;
+  retry?: boolean;
+}
+
+export interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  /** Undefined for `304 Not Modified`. */
+  data?: T;
+}
+
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  /** Epoch milliseconds. */
+  resetAt?: number;
+}
+
+export const API_VERSION = '1';
+export const DEFAULT_TIMEOUT_MS = 10_000;
+export const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * The request layer shared by every Nativelink API call: per-attempt timeouts,
+ * retries with exponential backoff and full jitter on 429/5xx and network errors,
+ * `Retry-After` and `X-RateLimit-*` handling, and typed errors for everything else.
+ */
+export class ApiClient {
+  readonly rateLimit: RateLimitState = {};
+  private options: Required<Omit<ApiClientOptions, 'apiKey'>> & { apiKey?: string };
+
+  constructor(options: ApiClientOptions) {
+    this.options = {
+      apiVersion: API_VERSION,
+      versionInPath: false,
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      maxRetries: DEFAULT_MAX_RETRIES,
+      retryBaseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
+      maxRetryDelayMs: DEFAULT_MAX_RETRY_DELAY_MS,
+      ...stripUndefined(options),
+      baseUrl: options.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  async request<T>(request: ApiRequest): Promise<ApiResponse<T>> {
+    const maxRetries = request.retry === false ? 0 : this.options.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit();
+
+      let error: NativelinkApiError;
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await this.send(request);
+        this.updateRateLimit(response.headers);
+
+        if (response.ok || response.status === 304) {
+          const data = response.status === 304 || response.status === 204
+            ? undefined
+            : parseJson<T>(response.status, await response.text());
+          return { status: response.status, headers: response.headers, data };
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers) ?? this.untilReset(response.status);
+        error = toApiError(response.status, response.statusText, await response.text(), retryAfterMs);
+        if (!RETRYABLE_STATUSES.has(response.status)) throw error;
+      } catch (caught) {
+        if (caught instanceof NativelinkApiError && !isRetryable(caught)) throw caught;
+        error = caught instanceof NativelinkApiError ? caught : toTransportError(caught, this.options.timeoutMs);
+      }
+
+      if (attempt >= maxRetries) throw error;
+
+      const delay = retryAfterMs ?? this.backoff(attempt);
+      if (delay > this.options.maxRetryDelayMs) throw error;
+      await sleep(delay);
+    }
+  }
+
+  private async send(request: ApiRequest) {
+    const version = this.options.versionInPath ? `/v${this.options.apiVersion}` : '';
+    const query = new URLSearchParams(stripUndefined(request.query || {}) as Record<string, string>).toString();
+    const url = `${this.options.baseUrl}${version}${request.path}${query ? `?${query}` : ''}`;
+
+    return fetch(url, {
+      method: request.method || 'GET',
+      headers: {
+        ...(this.options.apiKey && { 'Authorization': `Bearer ${this.options.apiKey}` }),
+        'Content-Type': 'application/json',
+        'X-API-Version': this.options.apiVersion,
+        ...request.headers
+      },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+  }
+
+  // Full jitter: a random delay up to the exponential cap, so clients that failed together spread out.
+  private backoff(attempt: number): number {
+    const cap = Math.min(this.options.maxRetryDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * cap);
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    if (this.rateLimit.remaining !== 0 || this.rateLimit.resetAt === undefined) return;
+
+    const wait = this.rateLimit.resetAt - Date.now();
+    if (wait <= 0) return;
+    if (wait > this.options.maxRetryDelayMs) {
+      throw new ApiRateLimitError(`Rate limit exhausted until ${new Date(this.rateLimit.resetAt).toISOString()}`, {
+        retryAfterMs: wait,
+        details: { limit: this.rateLimit.limit, reset: Math.floor(this.rateLimit.resetAt / 1000) }
+      });
+    }
+    await sleep(wait);
+  }
+
+  private updateRateLimit(headers: Headers): void {
+    const limit = parseHeaderNumber(headers, 'x-ratelimit-limit');
+    const remaining = parseHeaderNumber(headers, 'x-ratelimit-remaining');
+    const reset = parseHeaderNumber(headers, 'x-ratelimit-reset');
+
+    if (limit !== undefined) this.rateLimit.limit = limit;
+    if (remaining !== undefined) this.rateLimit.remaining = remaining;
+    if (reset !== undefined) this.rateLimit.resetAt = reset * 1000;
+  }
+
+  private untilReset(status: number): number | undefined {
+    if (status !== 429 || this.rateLimit.resetAt === undefined) return undefined;
+    return Math.max(0, this.rateLimit.resetAt - Date.now());
+  }
+}
+
+function isRetryable(error: NativelinkApiError): boolean {
+  return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function parseHeaderNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Error bodies follow `{"error": {"code", "message", "details"}}`; anything else falls back to the status text.
+function toApiError(
+  status: number,
+  statusText: string,
+  text: string,
+  retryAfterMs?: number
+): NativelinkApiError {
+  let body: { error?: { code?: string; message?: string; details?: unknown } } | undefined;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
+  }
+
+  const message = body?.error?.message || `${status} ${statusText}`.trim();
+  return errorForStatus(status, message, {
+    code: body?.error?.code,
+    details: body?.error?.details,
+    retryAfterMs
+  });
+}
+
+function parseJson<T>(status: number, text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new NativelinkApiError('Response is not valid JSON', { status, code: 'INVALID_RESPONSE' });
+  }
+}
+
+function toTransportError(error: unknown, timeoutMs: number): NativelinkApiError {
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new ApiTimeoutError(`Request timed out after ${timeoutMs} ms`, { code: 'TIMEOUT' });
+  }
+  const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiNetworkError(`${message}${cause}`, { code: 'NETWORK_ERROR' });
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
\ No newline at end of file
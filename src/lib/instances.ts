@@ -0,0 +1,54 @@
+import type { Scale } from './types.js';
+
+export interface InstanceType {
+  vcpus: number;
+  memoryGiB: number;
+  /** On-demand list price in USD per hour, us-east, rounded. */
+  hourlyUsd: number;
+}
+
+/**
+ * The machine types `generate-deployment-config` deploys on. Prices are list prices
+ * for estimates only; regional, spot and committed-use prices differ.
+ */
+export const INSTANCE_TYPES: Record<string, InstanceType> = {
+  't3.large': { vcpus: 2, memoryGiB: 8, hourlyUsd: 0.0832 },
+  't3.xlarge': { vcpus: 4, memoryGiB: 16, hourlyUsd: 0.1664 },
+  'm5.2xlarge': { vcpus: 8, memoryGiB: 32, hourlyUsd: 0.384 },
+  'm5.4xlarge': { vcpus: 16, memoryGiB: 64, hourlyUsd: 0.768 },
+  'n2-standard-2': { vcpus: 2, memoryGiB: 8, hourlyUsd: 0.0971 },
+  'n2-standard-4': { vcpus: 4, memoryGiB: 16, hourlyUsd: 0.1942 },
+  'n2-standard-8': { vcpus: 8, memoryGiB: 32, hourlyUsd: 0.3885 },
+  'n2-standard-16': { vcpus: 16, memoryGiB: 64, hourlyUsd: 0.7769 },
+  'Standard_D2s_v3': { vcpus: 2, memoryGiB: 8, hourlyUsd: 0.096 },
+  'Standard_D4s_v3': { vcpus: 4, memoryGiB: 16, hourlyUsd: 0.192 },
+  'Standard_D8s_v3': { vcpus: 8, memoryGiB: 32, hourlyUsd: 0.384 },
+  'Standard_D16s_v3': { vcpus: 16, memoryGiB: 64, hourlyUsd: 0.768 }
+};
+
+export function getAWSInstanceType(scale: Scale): string {
+  switch (scale) {
+    case 'small': return 't3.large';
+    case 'medium': return 't3.xlarge';
+    case 'large': return 'm5.2xlarge';
+    case 'enterprise': return 'm5.4xlarge';
+  }
+}
+
+export function getGCPMachineType(scale: Scale): string {
+  switch (scale) {
+    case 'small': return 'n2-standard-2';
+    case 'medium': return 'n2-standard-4';
+    case 'large': return 'n2-standard-8';
+    case 'enterprise': return 'n2-standard-16';
+  }
+}
+
+export function getAzureVMSize(scale: Scale): string {
+  switch (scale) {
+    case 'small': return 'Standard_D2s_v3';
+    case 'medium': return 'Standard_D4s_v3';
+    case 'large': return 'Standard_D8s_v3';
+    case 'enterprise': return 'Standard_D16s_v3';
+  }
+}
\ No newline at end of file
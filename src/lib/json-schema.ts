@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type ToolInputSchema = JsonSchema & { type: 'object' };
+
+/**
+ * Converts a tool's zod schema into the JSON Schema advertised by `tools/list`.
+ * Refinements cannot be expressed and are dropped; they still run when the
+ * arguments are parsed.
+ */
+export function toToolInputSchema(schema: z.ZodTypeAny): ToolInputSchema {
+  const json = zodToJsonSchema(schema);
+  if (json.type !== 'object') {
+    throw new Error('Tool input schemas must be zod objects');
+  }
+  return json as ToolInputSchema;
+}
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    return withChecks({ type: 'string' }, schema._def.checks, { min: 'minLength', max: 'maxLength' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    const integer = schema._def.checks.some(check => check.kind === 'int');
+    return withChecks({ type: integer ? 'integer' : 'number' }, schema._def.checks, { min: 'minimum', max: 'maximum' });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(schema._def.minLength ? { minItems: schema._def.minLength.value } : {}),
+      ...(schema._def.maxLength ? { maxItems: schema._def.maxLength.value } : {})
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return {};
+  }
+
+  throw new Error(`Unsupported zod type in tool schema: ${schema._def.typeName}`);
+}
+
+function withChecks(
+  json: JsonSchema,
+  checks: { kind: string; value?: unknown; inclusive?: boolean }[],
+  keywords: { min: string; max: string }
+): JsonSchema {
+  for (const check of checks) {
+    if (check.kind !== 'min' && check.kind !== 'max') continue;
+    const keyword = keywords[check.kind];
+    const exclusive = check.inclusive === false;
+    json[exclusive ? `exclusive${keyword[0].toUpperCase()}${keyword.slice(1)}` : keyword] = check.value;
+  }
+  return json;
+}
\ No newline at end of file
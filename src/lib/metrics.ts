@@ -0,0 +1,55 @@
+import type { BuildMetrics, MnemonicMetrics, ProfileSummary } from './types.js';
+
+export interface MnemonicShare {
+  mnemonic: string;
+  actions: number;
+  share: number;
+  workers?: number;
+}
+
+/**
+ * Fills in metrics that follow from others: the cache hit rate and action count from
+ * hit and miss counts, the transfer size from bytes up and down, and per-mnemonic
+ * stats from a profile. Values the caller gave are never replaced.
+ */
+export function completeMetrics(metrics: BuildMetrics, profile?: ProfileSummary): BuildMetrics {
+  const complete: BuildMetrics = { ...metrics };
+  const { cacheHits, cacheMisses } = complete;
+
+  if (cacheHits !== undefined && cacheMisses !== undefined && cacheHits + cacheMisses > 0) {
+    complete.cacheHitRate ??= cacheHits / (cacheHits + cacheMisses);
+    complete.totalActions ??= cacheHits + cacheMisses;
+  }
+
+  if (complete.networkTransferSize === undefined &&
+      (complete.bytesDownloaded !== undefined || complete.bytesUploaded !== undefined)) {
+    complete.networkTransferSize = (complete.bytesDownloaded || 0) + (complete.bytesUploaded || 0);
+  }
+
+  if (!complete.mnemonics?.length && profile && profile.mnemonics.length > 0) {
+    complete.mnemonics = profile.mnemonics.map((m): MnemonicMetrics => ({
+      mnemonic: m.mnemonic,
+      actions: m.count,
+      totalTime: m.totalTime
+    }));
+  }
+
+  return complete;
+}
+
+/**
+ * Mnemonics that account for at least `minShare` of the build, by time when every
+ * entry has one and by action count otherwise. Largest first.
+ */
+export function getDominantMnemonics(metrics: BuildMetrics, minShare = 0.2): MnemonicShare[] {
+  const mnemonics = metrics.mnemonics || [];
+  const byTime = mnemonics.length > 0 && mnemonics.every(m => m.totalTime !== undefined);
+  const weight = (m: MnemonicMetrics) => byTime ? m.totalTime! : m.actions;
+  const total = mnemonics.reduce((sum, m) => sum + weight(m), 0);
+  if (total <= 0) return [];
+
+  return mnemonics
+    .map(m => ({ mnemonic: m.mnemonic, actions: m.actions, share: weight(m) / total, workers: m.workers }))
+    .filter(m => m.share >= minShare)
+    .sort((a, b) => b.share - a.share);
+}
\ No newline at end of file
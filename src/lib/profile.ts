@@ -0,0 +1,184 @@
+import { gunzipSync } from 'zlib';
+import type { ProfileSummary, ActionTiming, MnemonicTiming, PhaseTiming } from './types.js';
+
+interface TraceEvent {
+  name?: string;
+  cat?: string;
+  ph?: string;
+  ts?: number;
+  dur?: number;
+  pid?: number;
+  tid?: number;
+  args?: Record<string, unknown>;
+}
+
+const ACTION_CATEGORY = 'action processing';
+const CRITICAL_PATH_CATEGORY = 'critical path component';
+const PHASE_MARKER_CATEGORY = 'build phase marker';
+const REMOTE_EXECUTION_CATEGORIES = ['remote action execution', 'remote execution process wall time'];
+const CACHE_CHECK_CATEGORIES = ['remote action cache check'];
+const LOCAL_EXECUTION_CATEGORIES = ['local action execution', 'local process spawn', 'sandbox creation'];
+
+const PHASE_GROUPS: Record<string, PhaseTiming['group']> = {
+  'Launch Blaze': 'startup',
+  'Initialize command': 'startup',
+  'Load packages': 'loading',
+  'Load and analyze dependencies': 'analysis',
+  'Analyze dependencies': 'analysis',
+  'Prepare for build': 'analysis',
+  'Build artifacts': 'execution',
+  'Execute actions': 'execution',
+  'Complete build': 'finish',
+  'Finish': 'finish'
+};
+
+/**
+ * Decodes profile input as accepted by `analyze-build-performance`: raw JSON,
+ * base64-encoded JSON, or base64-encoded gzip (the `.json.gz` Bazel writes by default).
+ */
+export function decodeProfileData(profileData: string): string {
+  const trimmed = profileData.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return trimmed;
+  }
+
+  const bytes = Buffer.from(trimmed, 'base64');
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return gunzipSync(bytes).toString('utf8');
+  }
+
+  return bytes.toString('utf8');
+}
+
+/**
+ * Summarizes a Bazel JSON trace profile. `slowestActions` caps the action list;
+ * pass Infinity to keep every action, e.g. to match actions across two builds.
+ */
+export function parseBazelProfile(profileData: string, slowestActions = 10): ProfileSummary {
+  const parsed = JSON.parse(decodeProfileData(profileData)) as unknown;
+  const events: TraceEvent[] = Array.isArray(parsed)
+    ? parsed
+    : ((parsed as { traceEvents?: TraceEvent[] }).traceEvents || []);
+
+  if (events.length === 0) {
+    throw new Error('Profile contains no trace events');
+  }
+
+  let profileStart = Infinity;
+  let profileEnd = 0;
+  for (const event of events) {
+    if (typeof event.ts !== 'number') continue;
+    profileStart = Math.min(profileStart, event.ts);
+    profileEnd = Math.max(profileEnd, event.ts + (event.dur || 0));
+  }
+
+  const actions = events.filter(e => e.cat === ACTION_CATEGORY && e.ph === 'X');
+
+  return {
+    totalTime: toSeconds(profileEnd - profileStart),
+    actionCount: actions.length,
+    criticalPath: getCriticalPath(events),
+    phases: getPhases(events, profileEnd),
+    slowestActions: actions
+      .map(toActionTiming)
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, slowestActions),
+    mnemonics: getMnemonicTimings(actions),
+    spawns: classifySpawns(events, actions)
+  };
+}
+
+function getCriticalPath(events: TraceEvent[]): ProfileSummary['criticalPath'] {
+  const components = events
+    .filter(e => e.cat === CRITICAL_PATH_CATEGORY && typeof e.dur === 'number')
+    .map(toActionTiming);
+
+  return {
+    duration: components.reduce((total, c) => total + c.duration, 0),
+    components: components.sort((a, b) => b.duration - a.duration).slice(0, 10)
+  };
+}
+
+function getPhases(events: TraceEvent[], profileEnd: number): PhaseTiming[] {
+  const markers = events
+    .filter(e => e.cat === PHASE_MARKER_CATEGORY && typeof e.ts === 'number')
+    .sort((a, b) => a.ts! - b.ts!);
+
+  return markers.map((marker, index) => {
+    const end = index + 1 < markers.length ? markers[index + 1].ts! : profileEnd;
+    const name = marker.name || 'unknown';
+    return {
+      name,
+      group: PHASE_GROUPS[name] || 'other',
+      duration: toSeconds(end - marker.ts!)
+    };
+  });
+}
+
+function getMnemonicTimings(actions: TraceEvent[]): MnemonicTiming[] {
+  const byMnemonic = new Map<string, MnemonicTiming>();
+
+  for (const action of actions) {
+    const { mnemonic, duration } = toActionTiming(action);
+    const entry = byMnemonic.get(mnemonic) || { mnemonic, count: 0, totalTime: 0, maxTime: 0 };
+    entry.count++;
+    entry.totalTime += duration;
+    entry.maxTime = Math.max(entry.maxTime, duration);
+    byMnemonic.set(mnemonic, entry);
+  }
+
+  return [...byMnemonic.values()].sort((a, b) => b.totalTime - a.totalTime);
+}
+
+// Bazel does not record the spawn strategy on the action event itself, so we
+// look at which spawn-level events are nested inside each action on its thread.
+function classifySpawns(events: TraceEvent[], actions: TraceEvent[]): ProfileSummary['spawns'] {
+  const spawns = { remote: 0, cacheHit: 0, local: 0, unknown: 0 };
+  const byThread = new Map<string, TraceEvent[]>();
+
+  for (const event of events) {
+    if (event.ph !== 'X' || typeof event.ts !== 'number') continue;
+    const key = `${event.pid}:${event.tid}`;
+    const list = byThread.get(key) || [];
+    list.push(event);
+    byThread.set(key, list);
+  }
+
+  for (const action of actions) {
+    const start = action.ts!;
+    const end = start + (action.dur || 0);
+    const nested = (byThread.get(`${action.pid}:${action.tid}`) || [])
+      .filter(e => e !== action && e.ts! >= start && e.ts! <= end)
+      .map(e => (e.cat || '').toLowerCase());
+
+    if (nested.some(cat => REMOTE_EXECUTION_CATEGORIES.includes(cat))) {
+      spawns.remote++;
+    } else if (nested.some(cat => LOCAL_EXECUTION_CATEGORIES.includes(cat))) {
+      spawns.local++;
+    } else if (nested.some(cat => CACHE_CHECK_CATEGORIES.includes(cat))) {
+      spawns.cacheHit++;
+    } else {
+      spawns.unknown++;
+    }
+  }
+
+  return spawns;
+}
+
+function toActionTiming(event: TraceEvent): ActionTiming {
+  const args = event.args || {};
+  const mnemonic = typeof args.mnemonic === 'string'
+    ? args.mnemonic
+    : (event.name || 'unknown').split(' ')[0];
+
+  return {
+    name: event.name || 'unknown',
+    mnemonic,
+    target: typeof args.target === 'string' ? args.target : undefined,
+    duration: toSeconds(event.dur || 0)
+  };
+}
+
+function toSeconds(micros: number): number {
+  return micros / 1_000_000;
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { extname, join } from 'path';
+import { z } from 'zod';
+import { DocsSourceSetting, OptimizationTarget, ProjectType, type NativelinkConfig } from './types.js';
+import { parseToml } from './toml.js';
+
+const ProfileName = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Profile names may only contain letters, digits, _ and -');
+
+export const ProfileSchema = z.object({
+  apiUrl: z.string().url().optional().describe('Nativelink API URL (--nativelink-url)'),
+  apiKey: z.string().min(1).optional(),
+  anthropicKey: z.string().min(1).optional(),
+  geminiKey: z.string().min(1).optional(),
+  endpoints: z.object({
+    nativelinkUrl: z.string().optional(),
+    casUrl: z.string().optional(),
+    schedulerUrl: z.string().optional(),
+    besUrl: z.string().optional(),
+    instanceName: z.string().optional()
+  }).strict().optional().describe('Default Bazel endpoints for tools that generate configs'),
+  projectType: ProjectType.optional(),
+  targetOptimization: OptimizationTarget.optional(),
+  docsSource: DocsSourceSetting.optional().describe('live fetches docs from the API; bundled only uses the docs shipped with the server'),
+  staleWhileRevalidate: z.boolean().optional().describe('false revalidates stale docs before answering (--no-stale-while-revalidate)'),
+  debug: z.boolean().optional().describe('Log failed API requests to stderr (DEBUG=true)')
+}).strict();
+
+export type Profile = z.infer<typeof ProfileSchema>;
+
+export const ConfigFileSchema = z.object({
+  defaultProfile: ProfileName.optional(),
+  profiles: z.record(ProfileName, ProfileSchema)
+}).strict().refine(file => !file.defaultProfile || file.defaultProfile in file.profiles, {
+  message: 'defaultProfile must name one of the profiles',
+  path: ['defaultProfile']
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export interface LoadedConfigFile {
+  file: string;
+  config: ConfigFile;
+}
+
+/**
+ * `$XDG_CONFIG_HOME/nativelink-mcp`, or `~/.config/nativelink-mcp` when it is unset.
+ */
+export function getDefaultConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'nativelink-mcp');
+}
+
+/**
+ * Loads `file`, or else `config.json` or `config.toml` from the default config
+ * directory. Only an explicitly given file has to exist. Parse and validation
+ * errors name the file and every offending field.
+ */
+export function loadConfigFile(file?: string): LoadedConfigFile | undefined {
+  const path = file || ['config.json', 'config.toml'].map(name => join(getDefaultConfigDir(), name)).find(existsSync);
+  if (!path) return undefined;
+
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = extname(path) === '.toml' ? parseToml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${path} is not valid ${extname(path) === '.toml' ? 'TOML' : 'JSON'}: ${(error as Error).message}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.errors.map(e => `  - ${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new Error([`Invalid config file ${path}:`, ...issues].join('\n'));
+  }
+  return { file: path, config: result.data };
+}
+
+export function getProfile(loaded: LoadedConfigFile, name: string): Profile {
+  const profile = loaded.config.profiles[name];
+  if (!profile) {
+    const names = Object.keys(loaded.config.profiles);
+    throw new Error(`Unknown profile "${name}"; ${loaded.file} defines ${names.length > 0 ? names.join(', ') : 'no profiles'}`);
+  }
+  return profile;
+}
+
+/**
+ * The server settings a profile sets, without the ones it leaves out. With
+ * `includeKeys` false the profile's API keys are left out as well.
+ */
+export function getProfileConfig(profile: Profile, includeKeys = true): Partial<NativelinkConfig> {
+  return withoutUndefined({
+    nativelinkUrl: profile.apiUrl,
+    ...(includeKeys && {
+      apiKey: profile.apiKey,
+      anthropicKey: profile.anthropicKey,
+      geminiKey: profile.geminiKey
+    }),
+    docsSource: profile.docsSource,
+    staleWhileRevalidate: profile.staleWhileRevalidate,
+    debug: profile.debug
+  });
+}
+
+const ENDPOINT_ARGUMENTS = ['nativelinkUrl', 'casUrl', 'schedulerUrl', 'besUrl', 'instanceName'];
+
+/**
+ * Fills in the profile's defaults for arguments the tool accepts and the call left
+ * out. Endpoints are taken from the profile only when the call names none of them,
+ * and projectType only when it names no workspace to detect it from.
+ */
+export function applyProfileDefaults(
+  args: Record<string, unknown>,
+  profile: Profile,
+  accepted: string[]
+): Record<string, unknown> {
+  const given = (key: string) => args[key] !== undefined;
+  const defaults: Record<string, unknown> = {
+    ...(ENDPOINT_ARGUMENTS.some(given) ? {} : profile.endpoints),
+    ...(given('workspacePath') ? {} : { projectType: profile.projectType }),
+    targetOptimization: profile.targetOptimization
+  };
+
+  const filled = { ...args };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (value !== undefined && accepted.includes(key) && !given(key)) filled[key] = value;
+  }
+  return filled;
+}
+
+/** Every API key in the file, for redacting them from responses. */
+export function getProfileSecrets(loaded?: LoadedConfigFile): string[] {
+  return Object.values(loaded?.config.profiles || {})
+    .flatMap(profile => [profile.apiKey, profile.anthropicKey, profile.geminiKey])
+    .filter((key): key is string => key !== undefined);
+}
+
+function withoutUndefined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import type { BuildMetrics, OptimizationTarget, PerformanceScore, ProfileSummary, SuggestedFlag } from './types.js';
+import { spellFlag } from './flags.js';
+
+const WEIGHTS = { cacheEfficiency: 0.5, networkUsage: 0.2, parallelization: 0.3 };
+
+const MB = 1024 * 1024;
+// Up to this much transfer per build scores 100; each 10x more costs 50 points.
+const NETWORK_BUDGET_BYTES = 100 * MB;
+
+/**
+ * Scores a build from 0 to 100 in the same areas as the `/api/analyze` response.
+ * Areas without data are null and left out of the overall score.
+ */
+export function scoreBuild(metrics: BuildMetrics, profile?: ProfileSummary): PerformanceScore {
+  const spawns = profile?.spawns;
+  const classified = spawns ? spawns.remote + spawns.cacheHit + spawns.local : 0;
+
+  let cacheEfficiency: number | null = null;
+  if (metrics.cacheHitRate !== undefined) {
+    cacheEfficiency = toScore(metrics.cacheHitRate);
+  } else if (spawns && classified > 0) {
+    cacheEfficiency = toScore(spawns.cacheHit / classified);
+  }
+
+  let networkUsage: number | null = null;
+  if (metrics.networkTransferSize !== undefined) {
+    const ratio = Math.max(metrics.networkTransferSize, 1) / NETWORK_BUDGET_BYTES;
+    networkUsage = ratio <= 1 ? 100 : clamp(Math.round(100 - 50 * Math.log10(ratio)));
+  }
+
+  let parallelization: number | null = null;
+  const executionTime = (metrics.remoteExecutionTime || 0) + (metrics.localExecutionTime || 0);
+  if (metrics.remoteExecutionTime !== undefined && executionTime > 0) {
+    parallelization = toScore(metrics.remoteExecutionTime / executionTime);
+  } else if (spawns && classified > 0) {
+    parallelization = toScore((spawns.remote + spawns.cacheHit) / classified);
+  }
+
+  const scores = { cacheEfficiency, networkUsage, parallelization };
+  let weighted = 0;
+  let weight = 0;
+  for (const [area, score] of Object.entries(scores) as [keyof typeof WEIGHTS, number | null][]) {
+    if (score === null) continue;
+    weighted += score * WEIGHTS[area];
+    weight += WEIGHTS[area];
+  }
+
+  return {
+    overall: weight > 0 ? Math.round(weighted / weight) : null,
+    ...scores
+  };
+}
+
+/**
+ * Flags worth adding for the weakest areas of a scored build, spelled for the
+ * target Bazel major version. Flags that version does not have are left out.
+ */
+export function suggestFlags(
+  score: PerformanceScore,
+  target: OptimizationTarget,
+  bazelMajor: number
+): SuggestedFlag[] {
+  const flags: SuggestedFlag[] = [];
+  const add = (flag: string, area: SuggestedFlag['area'], rationale: string) => {
+    flags.push({ flag, command: 'build', area, rationale });
+  };
+
+  if (score.cacheEfficiency !== null && score.cacheEfficiency < 70) {
+    add('--incompatible_strict_action_env', 'cache',
+      `Only ${score.cacheEfficiency}% of actions hit the cache; a fixed PATH and environment keeps action keys stable across machines.`);
+    add('--remote_upload_local_results', 'cache',
+      'Actions that ran locally are uploaded, so the next build can reuse them.');
+  }
+
+  if (score.networkUsage !== null && score.networkUsage < 70) {
+    add('--remote_download_minimal', 'network',
+      'Large transfers: only download outputs that are needed locally instead of every intermediate artifact.');
+    add('--remote_cache_compression', 'network',
+      'Compresses blobs with zstd on the wire, which usually cuts transfer size for source and object files.');
+  }
+
+  if (score.parallelization !== null && score.parallelization < 50) {
+    add('--jobs=200', 'parallelization',
+      `Only ${score.parallelization}% of execution was remote; with a remote executor, more concurrent jobs keep the workers busy.`);
+    add('--remote_local_fallback', 'parallelization',
+      'Falls back to local execution if the remote executor is unavailable, instead of failing the build.');
+  }
+
+  if (target === 'speed') {
+    add('--remote_cache_async', 'general', 'Uploads to the cache no longer block the build.');
+  } else if (target === 'cost') {
+    add('--remote_build_event_upload=minimal', 'general', 'Uploads only the build outputs the Build Event Service needs.');
+  }
+
+  return flags.flatMap(suggestion => {
+    const flag = spellFlag(suggestion.flag, bazelMajor);
+    return flag === null ? [] : [{ ...suggestion, flag }];
+  });
+}
+
+function toScore(ratio: number): number {
+  return clamp(Math.round(ratio * 100));
+}
+
+function clamp(score: number): number {
+  return Math.min(100, Math.max(0, score));
+}
\ No newline at end of file
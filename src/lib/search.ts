@@ -0,0 +1,166 @@
+import { DOCS_PAGES, DOCS_URI_PREFIX, type DocPage } from './docs-corpus.js';
+
+export interface DocSection {
+  pageId: string;
+  path: string[];
+  anchor: string;
+  uri: string;
+  text: string;
+}
+
+export interface SearchResult {
+  section: DocSection;
+  score: number;
+}
+
+interface SearchIndex {
+  sections: DocSection[];
+  terms: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const HEADING_WEIGHT = 3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'should', 'so', 'that', 'the', 'this', 'to',
+  'use', 'what', 'when', 'which', 'why', 'with', 'you', 'your'
+]);
+
+let cachedIndex: SearchIndex | undefined;
+
+/**
+ * Ranks the bundled documentation sections against a free-text query with BM25.
+ * Heading words count more than body words.
+ */
+export function searchDocs(query: string, limit = 5): SearchResult[] {
+  const index = getIndex();
+  const queryTerms = [...new Set(tokenize(query))];
+  const results: SearchResult[] = [];
+
+  index.sections.forEach((section, i) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = index.terms[i].get(term);
+      if (!frequency) continue;
+
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (index.sections.length - df + 0.5) / (df + 0.5));
+      const norm = 1 - B + B * (index.lengths[i] / index.averageLength);
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * norm);
+    }
+    if (score > 0) results.push({ section, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Splits pages into one section per `##`/`###` heading. Text before the first
+ * such heading becomes a section named after the page.
+ */
+export function chunkPages(pages: DocPage[]): DocSection[] {
+  const sections: DocSection[] = [];
+
+  for (const page of pages) {
+    const anchors = new Set<string>();
+    let title = page.id;
+    let path: string[] = [];
+    let body: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      const text = body.join('\n').trim();
+      body = [];
+      if (!text) return;
+
+      const heading = path[path.length - 1] || title;
+      let anchor = slugify(heading);
+      for (let n = 1; anchors.has(anchor); n++) anchor = `${slugify(heading)}-${n}`;
+      anchors.add(anchor);
+
+      sections.push({
+        pageId: page.id,
+        path: [title, ...path],
+        anchor,
+        uri: `${DOCS_URI_PREFIX}${page.id}#${anchor}`,
+        text
+      });
+    };
+
+    for (const line of page.content.split('\n')) {
+      if (line.trimStart().startsWith('```')) inFence = !inFence;
+      const heading = inFence ? null : line.match(/^(#{1,3})\s+(.+)$/);
+
+      if (!heading) {
+        body.push(line);
+      } else if (heading[1] === '#') {
+        flush();
+        title = heading[2].trim();
+        path = [];
+      } else {
+        flush();
+        const depth = heading[1].length - 2;
+        path = [...path.slice(0, depth), heading[2].trim()];
+      }
+    }
+    flush();
+  }
+
+  return sections;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().split(/[^a-z0-9_]+/)) {
+    // Flag names are indexed whole and by part, so "remote cache" also finds --remote_cache.
+    const parts = word.includes('_') ? [word, ...word.split('_')] : [word];
+    for (const part of parts) {
+      if (part.length < 2 || STOPWORDS.has(part)) continue;
+      tokens.push(stem(part));
+    }
+  }
+  return tokens;
+}
+
+// A deliberately small stemmer: enough to match cache/caches/caching/cached.
+function stem(word: string): string {
+  if (/\d/.test(word)) return word;
+  const match = word.match(/^(.{3,}?)(ing|ion|ed|es|s|e)$/);
+  return match ? match[1] : word;
+}
+
+function slugify(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9 -]/g, '').trim().replace(/\s+/g, '-');
+}
+
+function getIndex(): SearchIndex {
+  if (cachedIndex) return cachedIndex;
+
+  const sections = chunkPages(DOCS_PAGES);
+  const documentFrequency = new Map<string, number>();
+
+  const terms = sections.map(section => {
+    const headingTokens = tokenize(section.path.join(' '));
+    const tokens = [...tokenize(section.text), ...Array(HEADING_WEIGHT).fill(headingTokens).flat()];
+
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+    for (const token of counts.keys()) documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    return counts;
+  });
+
+  const lengths = terms.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  cachedIndex = {
+    sections,
+    terms,
+    lengths,
+    averageLength: lengths.reduce((sum, n) => sum + n, 0) / Math.max(lengths.length, 1),
+    documentFrequency
+  };
+  return cachedIndex;
+}
\ No newline at end of file
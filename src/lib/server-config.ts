@@ -0,0 +1,293 @@
+import type { Platform, Scale, StorageBackend } from './types.js';
+
+type StoreSpec = Record<string, unknown>;
+
+/**
+ * `standalone` runs stores, scheduler and a worker in one process. `scheduler` leaves
+ * out the worker, and `worker` runs only a worker that reaches the stores and the
+ * scheduler of a `scheduler` process at `schedulerHost`.
+ */
+export type ServerRole = 'standalone' | 'scheduler' | 'worker';
+
+export interface ServerConfigOptions {
+  platform: Platform;
+  scale: Scale;
+  features: string[];
+  storageBackend?: StorageBackend;
+  bucket?: string;
+  region?: string;
+  role?: ServerRole;
+  schedulerHost?: string;
+}
+
+export const INSTANCE_NAME = 'main';
+export const WORKER_API_PORT = 50061;
+export const DATA_DIR = '/data/nativelink';
+
+export function getDefaultStorageBackend(platform: Platform): StorageBackend {
+  switch (platform) {
+    case 'aws': return 's3';
+    case 'gcp': return 'gcs';
+    default: return 'filesystem';
+  }
+}
+
+/**
+ * Builds a NativeLink `config.json5` matching the ports the deployment templates expose:
+ * 50051 for the public REAPI services, 50052 for CAS-only clients, 9090 for metrics
+ * and an internal worker API listener.
+ */
+export function generateServerConfig(options: ServerConfigOptions): string {
+  const backend = options.storageBackend || getDefaultStorageBackend(options.platform);
+  const sizes = getStoreSizes(options.scale);
+  const monitoring = options.features.includes('monitoring');
+  const role = options.role || 'standalone';
+
+  if (role === 'worker') {
+    return generateWorkerConfig(options.schedulerHost || 'nativelink', sizes.workerCacheBytes, monitoring, options.scale);
+  }
+
+  const config = {
+    stores: [
+      {
+        name: 'CAS_MAIN_STORE',
+        verify: {
+          backend: {
+            fast_slow: {
+              fast: memoryStore(sizes.memoryBytes),
+              slow: casSlowStore(backend, sizes.diskBytes, options)
+            }
+          },
+          verify_size: true,
+          verify_hash: true
+        }
+      },
+      {
+        name: 'AC_MAIN_STORE',
+        fast_slow: {
+          fast: memoryStore(Math.floor(sizes.memoryBytes / 4)),
+          slow: persistentStore(backend, 'ac', Math.floor(sizes.diskBytes / 10), options)
+        }
+      },
+      ...(role === 'standalone' ? [workerFastSlowStore(sizes.workerCacheBytes)] : [])
+    ],
+    schedulers: [
+      {
+        name: 'MAIN_SCHEDULER',
+        simple: {
+          supported_platform_properties: {
+            cpu_count: 'minimum',
+            memory_kb: 'minimum',
+            OSFamily: 'priority',
+            'container-image': 'priority'
+          },
+          max_job_retries: 3,
+          worker_timeout_s: 30
+        }
+      }
+    ],
+    ...(role === 'standalone' ? { workers: [localWorker('127.0.0.1')] } : {}),
+    servers: [
+      {
+        name: 'public',
+        listener: { http: { socket_address: '0.0.0.0:50051' } },
+        services: {
+          cas: [{ instance_name: INSTANCE_NAME, cas_store: 'CAS_MAIN_STORE' }],
+          ac: [{ instance_name: INSTANCE_NAME, ac_store: 'AC_MAIN_STORE' }],
+          execution: [{ instance_name: INSTANCE_NAME, cas_store: 'CAS_MAIN_STORE', scheduler: 'MAIN_SCHEDULER' }],
+          capabilities: [{ instance_name: INSTANCE_NAME, remote_execution: { scheduler: 'MAIN_SCHEDULER' } }],
+          bytestream: { cas_stores: { [INSTANCE_NAME]: 'CAS_MAIN_STORE' } },
+          health: {}
+        }
+      },
+      {
+        name: 'cas',
+        listener: { http: { socket_address: '0.0.0.0:50052' } },
+        services: {
+          cas: [{ instance_name: INSTANCE_NAME, cas_store: 'CAS_MAIN_STORE' }],
+          ac: [{ instance_name: INSTANCE_NAME, ac_store: 'AC_MAIN_STORE' }],
+          capabilities: [{ instance_name: INSTANCE_NAME }],
+          bytestream: { cas_stores: { [INSTANCE_NAME]: 'CAS_MAIN_STORE' } }
+        }
+      },
+      {
+        name: 'worker_api',
+        listener: { http: { socket_address: `0.0.0.0:${WORKER_API_PORT}` } },
+        services: {
+          worker_api: { scheduler: 'MAIN_SCHEDULER' },
+          admin: {},
+          health: {}
+        }
+      },
+      ...(monitoring ? [metricsServer()] : [])
+    ],
+    global: {
+      max_open_files: sizes.maxOpenFiles
+    }
+  };
+
+  return [
+    `// NativeLink ${role === 'scheduler' ? 'scheduler and CAS' : 'server'} configuration (${options.scale} scale, ${backend} storage)`,
+    '// Reference: https://nativelink.com/docs/config/basic-configs',
+    JSON.stringify(config, null, 2)
+  ].join('\n');
+}
+
+// Workers keep a local filesystem cache in front of the scheduler's CAS and upload results to its AC.
+function generateWorkerConfig(schedulerHost: string, workerCacheBytes: number, monitoring: boolean, scale: Scale): string {
+  const remoteStore = (storeType: 'cas' | 'ac'): StoreSpec => ({
+    grpc: {
+      instance_name: INSTANCE_NAME,
+      endpoints: [{ address: `grpc://${schedulerHost}:50052` }],
+      store_type: storeType
+    }
+  });
+
+  const config = {
+    stores: [
+      { name: 'CAS_MAIN_STORE', ...remoteStore('cas') },
+      { name: 'AC_MAIN_STORE', ...remoteStore('ac') },
+      workerFastSlowStore(workerCacheBytes)
+    ],
+    workers: [localWorker(schedulerHost)],
+    servers: monitoring ? [metricsServer()] : []
+  };
+
+  return [
+    `// NativeLink worker configuration (${scale} scale, scheduler at ${schedulerHost})`,
+    '// Reference: https://nativelink.com/docs/config/basic-configs',
+    JSON.stringify(config, null, 2)
+  ].join('\n');
+}
+
+function workerFastSlowStore(maxBytes: number): StoreSpec {
+  return {
+    name: 'WORKER_FAST_SLOW_STORE',
+    fast_slow: {
+      fast: filesystemStore('worker-cas', maxBytes),
+      slow: { ref_store: { name: 'CAS_MAIN_STORE' } }
+    }
+  };
+}
+
+function localWorker(schedulerHost: string): Record<string, unknown> {
+  return {
+    local: {
+      name: 'worker-0',
+      worker_api_endpoint: { uri: `grpc://${schedulerHost}:${WORKER_API_PORT}` },
+      cas_fast_slow_store: 'WORKER_FAST_SLOW_STORE',
+      upload_action_result: { ac_store: 'AC_MAIN_STORE' },
+      work_directory: `${DATA_DIR}/work`,
+      platform_properties: {
+        cpu_count: { query_cmd: 'nproc' },
+        OSFamily: { values: ['Linux'] },
+        'container-image': { values: [''] }
+      }
+    }
+  };
+}
+
+function metricsServer(): Record<string, unknown> {
+  return {
+    name: 'metrics',
+    listener: { http: { socket_address: '0.0.0.0:9090' } },
+    services: {
+      experimental_prometheus: { path: '/metrics' }
+    }
+  };
+}
+
+/**
+ * Disk the persistent filesystem stores can fill: the CAS, its dedup index and the
+ * AC, plus 10% headroom.
+ */
+export function getPersistentStorageGiB(scale: Scale): number {
+  const gb = 1024 * 1024 * 1024;
+  const { diskBytes } = getStoreSizes(scale);
+  return Math.ceil((diskBytes * (1 + 1 / 10 + 1 / 100) * 1.1) / gb);
+}
+
+function getStoreSizes(scale: Scale): {
+  memoryBytes: number;
+  diskBytes: number;
+  workerCacheBytes: number;
+  maxOpenFiles: number;
+} {
+  const gb = 1024 * 1024 * 1024;
+  switch (scale) {
+    case 'small': return { memoryBytes: 1 * gb, diskBytes: 50 * gb, workerCacheBytes: 10 * gb, maxOpenFiles: 8192 };
+    case 'medium': return { memoryBytes: 2 * gb, diskBytes: 200 * gb, workerCacheBytes: 25 * gb, maxOpenFiles: 16384 };
+    case 'large': return { memoryBytes: 4 * gb, diskBytes: 500 * gb, workerCacheBytes: 50 * gb, maxOpenFiles: 32768 };
+    case 'enterprise': return { memoryBytes: 8 * gb, diskBytes: 2000 * gb, workerCacheBytes: 100 * gb, maxOpenFiles: 65536 };
+  }
+}
+
+function memoryStore(maxBytes: number): StoreSpec {
+  return { memory: { eviction_policy: { max_bytes: maxBytes } } };
+}
+
+function filesystemStore(name: string, maxBytes: number): StoreSpec {
+  return {
+    filesystem: {
+      content_path: `${DATA_DIR}/${name}/content`,
+      temp_path: `${DATA_DIR}/${name}/tmp`,
+      eviction_policy: { max_bytes: maxBytes }
+    }
+  };
+}
+
+// Large CAS blobs are deduplicated and compressed before they reach the persistent store.
+function casSlowStore(backend: StorageBackend, maxBytes: number, options: ServerConfigOptions): StoreSpec {
+  const persistent = persistentStore(backend, 'cas', maxBytes, options);
+  if (backend === 'memory') {
+    return persistent;
+  }
+
+  return {
+    dedup: {
+      index_store: persistentStore(backend, 'cas-index', Math.floor(maxBytes / 100), options),
+      content_store: {
+        compression: {
+          compression_algorithm: { lz4: {} },
+          backend: persistent
+        }
+      },
+      min_size: 64 * 1024,
+      normal_size: 256 * 1024,
+      max_size: 1024 * 1024
+    }
+  };
+}
+
+function persistentStore(
+  backend: StorageBackend,
+  name: string,
+  maxBytes: number,
+  options: ServerConfigOptions
+): StoreSpec {
+  switch (backend) {
+    case 'memory':
+      return memoryStore(maxBytes);
+    case 'filesystem':
+      return filesystemStore(name, maxBytes);
+    case 's3':
+      return {
+        experimental_cloud_object_store: {
+          provider: 'aws',
+          region: options.region || 'us-east-1',
+          bucket: options.bucket || 'nativelink-cas',
+          key_prefix: `${name}/`,
+          retry: { max_retries: 6, delay: 0.3, jitter: 0.5 }
+        }
+      };
+    case 'gcs':
+      return {
+        experimental_cloud_object_store: {
+          provider: 'gcs',
+          bucket: options.bucket || 'nativelink-cas',
+          key_prefix: `${name}/`,
+          retry: { max_retries: 6, delay: 0.3, jitter: 0.5 }
+        }
+      };
+  }
+}
\ No newline at end of file
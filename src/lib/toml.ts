@@ -0,0 +1,111 @@
+/**
+ * Parses the subset of TOML a settings file needs: `[table]` headers with dotted and
+ * quoted names, `key = value` pairs, basic and literal strings, numbers, booleans
+ * and single-line arrays. Anything else is rejected with its line number rather
+ * than misread.
+ */
+export function parseToml(text: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  let table = root;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const fail = (message: string): never => {
+      throw new Error(`line ${index + 1}: ${message}`);
+    };
+    const line = stripComment(raw).trim();
+    if (!line) return;
+
+    if (line.startsWith('[')) {
+      if (line.startsWith('[[')) fail('arrays of tables are not supported');
+      if (!line.endsWith(']')) fail(`unterminated table header: ${line}`);
+      table = root;
+      for (const key of parseKeyPath(line.slice(1, -1), fail)) {
+        const next = table[key] ?? (table[key] = {});
+        if (typeof next !== 'object' || Array.isArray(next)) fail(`"${key}" is already a value`);
+        table = next as Record<string, unknown>;
+      }
+      return;
+    }
+
+    const eq = findUnquoted(line, '=');
+    if (eq < 0) fail(`expected key = value: ${line}`);
+    const path = parseKeyPath(line.slice(0, eq), fail);
+    const key = path.pop()!;
+    let target = table;
+    for (const part of path) {
+      const next = target[part] ?? (target[part] = {});
+      if (typeof next !== 'object' || Array.isArray(next)) fail(`"${part}" is already a value`);
+      target = next as Record<string, unknown>;
+    }
+    if (key in target) fail(`duplicate key "${key}"`);
+    target[key] = parseValue(line.slice(eq + 1).trim(), fail);
+  });
+
+  return root;
+}
+
+function parseKeyPath(text: string, fail: (message: string) => never): string[] {
+  return splitUnquoted(text, '.').map(part => {
+    const key = part.trim();
+    if (/^[A-Za-z0-9_-]+$/.test(key)) return key;
+    if (/^"[^"]*"$/.test(key) || /^'[^']*'$/.test(key)) return key.slice(1, -1);
+    return fail(`invalid key: ${key || '(empty)'}`);
+  });
+}
+
+function parseValue(text: string, fail: (message: string) => never): unknown {
+  if (text.startsWith('"')) {
+    if (text.startsWith('"""')) fail('multi-line strings are not supported');
+    try {
+      const value = JSON.parse(text);
+      if (typeof value === 'string') return value;
+    } catch {
+      // Reported below.
+    }
+    return fail(`invalid string: ${text}`);
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'") || text.slice(1, -1).includes("'")) fail(`invalid string: ${text}`);
+    return text.slice(1, -1);
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) fail('arrays must be on one line');
+    const inner = text.slice(1, -1).trim().replace(/,$/, '');
+    return inner ? splitUnquoted(inner, ',').map(item => parseValue(item.trim(), fail)) : [];
+  }
+  if (text.startsWith('{')) fail('inline tables are not supported; use a [table] header');
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^[+-]?\d[\d_]*(\.\d+)?([eE][+-]?\d+)?$/.test(text)) return Number(text.replace(/_/g, ''));
+  return fail(`invalid value: ${text || '(empty)'}`);
+}
+
+function stripComment(line: string): string {
+  const hash = findUnquoted(line, '#');
+  return hash < 0 ? line : line.slice(0, hash);
+}
+
+function findUnquoted(text: string, char: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = undefined;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  for (let at = findUnquoted(rest, separator); at >= 0; at = findUnquoted(rest, separator)) {
+    parts.push(rest.slice(0, at));
+    rest = rest.slice(at + 1);
+  }
+  return [...parts, rest];
+}
\ No newline at end of file
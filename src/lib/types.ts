@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import type { NativelinkAPI } from './api.js';
+import type { MetricsHistory } from './history.js';
+import type { LoadedConfigFile } from './profiles.js';
 
 export const ProjectType = z.enum(['rust', 'cpp', 'java', 'python', 'go', 'mixed']);
 export type ProjectType = z.infer<typeof ProjectType>;
@@ -12,17 +15,150 @@ export type Platform = z.infer<typeof Platform>;
 export const Scale = z.enum(['small', 'medium', 'large', 'enterprise']);
 export type Scale = z.infer<typeof Scale>;
 
+export const StorageBackend = z.enum(['memory', 'filesystem', 's3', 'gcs']);
+export type StorageBackend = z.infer<typeof StorageBackend>;
+
 export const OptimizationTarget = z.enum(['speed', 'cost', 'balanced']);
 export type OptimizationTarget = z.infer<typeof OptimizationTarget>;
 
+export const DocsSourceSetting = z.enum(['live', 'bundled']);
+export type DocsSourceSetting = z.infer<typeof DocsSourceSetting>;
+
+export const PerformanceScore = z.object({
+  overall: z.number().int().min(0).max(100).nullable().describe('Weighted score over the areas that could be scored'),
+  cacheEfficiency: z.number().int().min(0).max(100).nullable().describe('Share of actions served from the cache'),
+  networkUsage: z.number().int().min(0).max(100).nullable().describe('Higher means less data transferred per build'),
+  parallelization: z.number().int().min(0).max(100).nullable().describe('Share of execution done remotely')
+});
+export type PerformanceScore = z.infer<typeof PerformanceScore>;
+
+export const SuggestedFlag = z.object({
+  flag: z.string().describe('Flag as it goes in .bazelrc, e.g. --remote_download_minimal'),
+  command: z.string().describe('Bazel command the flag applies to, e.g. build'),
+  area: z.enum(['cache', 'network', 'parallelization', 'general']),
+  rationale: z.string()
+});
+export type SuggestedFlag = z.infer<typeof SuggestedFlag>;
+
+export const PriceSheetName = z.enum(['cloud-free', 'cloud-team', 'cloud-enterprise', 'aws', 'gcp', 'azure']);
+export type PriceSheetName = z.infer<typeof PriceSheetName>;
+
+export const PriceSheet = z.object({
+  name: z.string().describe('Name shown in the estimate'),
+  monthlyBase: z.number().min(0).describe('Fixed USD per month, e.g. a plan fee or an always-on scheduler node'),
+  remoteExecutionHour: z.number().min(0).describe('USD per hour of remote execution: wall time summed over remote actions'),
+  transferGB: z.number().min(0).describe('USD per GB uploaded to or downloaded from the cache'),
+  storageGBMonth: z.number().min(0).describe('USD per GB-month of cache storage'),
+  included: z.object({
+    remoteExecutionHours: z.number().min(0).optional(),
+    transferGB: z.number().min(0).optional(),
+    storageGB: z.number().min(0).optional()
+  }).optional().describe('Usage included in the monthly base before per-unit prices apply'),
+  placeholder: z.boolean().optional().describe('The rates are illustrative assumptions, not published prices')
+});
+export type PriceSheet = z.infer<typeof PriceSheet>;
+
+export const CostEstimate = z.object({
+  priceSheet: z.string(),
+  placeholderRates: z.boolean().describe('True when the price sheet uses illustrative rates rather than real prices'),
+  buildsPerMonth: z.number(),
+  usage: z.object({
+    remoteExecutionHours: z.number().describe('Remote execution hours per month: wall time summed over remote actions'),
+    transferGB: z.number().describe('GB uploaded and downloaded per month'),
+    storageGB: z.number().nullable().describe('Cache storage in GB, or null when not given')
+  }),
+  monthlyCost: z.number().describe('Estimated USD per month'),
+  monthlyCostWithFlags: z.number().describe('Estimated USD per month with every flag in flagEffects added'),
+  flagEffects: z.array(z.object({
+    flag: z.string(),
+    assumption: z.string(),
+    monthlyCost: z.number().describe('Estimated USD per month with this flag added'),
+    change: z.number().describe('Difference from the current estimate; negative is a saving')
+  }))
+});
+export type CostEstimate = z.infer<typeof CostEstimate>;
+
+export interface PerformanceAnalysis {
+  analysis: string;
+  score: PerformanceScore;
+  suggestedFlags: SuggestedFlag[];
+  source: 'api' | 'local';
+}
+
 export interface NativelinkConfig {
   apiKey?: string;
   anthropicKey?: string;
   geminiKey?: string;
   nativelinkUrl?: string;
+  apiVersion?: string;
+  apiVersionInPath?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+  cacheDir?: string;
+  docsTtlSeconds?: number;
+  staleWhileRevalidate?: boolean;
+  historyFile?: string;
+  recordHistory?: boolean;
+  docsSource?: DocsSourceSetting;
+  configFile?: LoadedConfigFile;
+  /** The profile the server was started with; tool calls may name another. */
+  profile?: string;
   debug?: boolean;
 }
 
+export interface ToolContext {
+  api: NativelinkAPI;
+  history: MetricsHistory;
+}
+
+/** What a tool returns when it has machine-readable output besides its markdown. */
+export interface ToolResult {
+  text: string;
+  structuredContent?: Record<string, unknown>;
+}
+
+/**
+ * A tool exposed over MCP. The zod schema validates arguments and is also
+ * converted to the JSON Schema listed by `tools/list`. Tools that return
+ * `structuredContent` declare its shape in `outputSchema`.
+ */
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: Schema;
+  outputSchema?: z.AnyZodObject;
+  handler(params: z.infer<Schema>, context: ToolContext): string | ToolResult | Promise<string | ToolResult>;
+}
+
+/**
+ * An MCP prompt. Arguments arrive as strings and are validated with the zod schema;
+ * `build` returns the user message that pre-fills the relevant tool calls.
+ */
+export interface PromptDefinition<Schema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  title: string;
+  description: string;
+  schema: Schema;
+  build(args: z.infer<Schema>): string;
+}
+
+export type WorkspaceLanguage = Exclude<ProjectType, 'mixed'> | 'js';
+
+export interface DetectedRuleset {
+  name: string;
+  repoName: string;
+  language: WorkspaceLanguage;
+  source: 'MODULE.bazel' | 'WORKSPACE';
+}
+
+export interface WorkspaceInfo {
+  path: string;
+  bzlmod: boolean;
+  bazelVersion?: string;
+  rulesets: DetectedRuleset[];
+  languages: WorkspaceLanguage[];
+}
+
 export interface BazelConfig {
   projectType: ProjectType;
   remoteCache: boolean;
@@ -31,12 +167,29 @@ export interface BazelConfig {
   additionalFlags?: string[];
 }
 
+export interface MnemonicMetrics {
+  mnemonic: string;
+  actions: number;
+  /** Seconds: CPU time when derived from BEP, wall time when derived from a profile. */
+  totalTime?: number;
+  /** Persistent workers started for this mnemonic. */
+  workers?: number;
+}
+
 export interface BuildMetrics {
   totalTime?: number;
   cacheHitRate?: number;
   remoteExecutionTime?: number;
   localExecutionTime?: number;
   networkTransferSize?: number;
+  totalActions?: number;
+  failedActions?: number;
+  cacheHits?: number;
+  cacheMisses?: number;
+  bytesDownloaded?: number;
+  bytesUploaded?: number;
+  workerCount?: number;
+  mnemonics?: MnemonicMetrics[];
 }
 
 export interface DeploymentConfig {
@@ -45,4 +198,72 @@ export interface DeploymentConfig {
   highAvailability: boolean;
   monitoring: boolean;
   autoscaling: boolean;
+}
+
+export interface ActionTiming {
+  name: string;
+  mnemonic: string;
+  target?: string;
+  duration: number;
+}
+
+export interface MnemonicTiming {
+  mnemonic: string;
+  count: number;
+  totalTime: number;
+  maxTime: number;
+}
+
+export interface PhaseTiming {
+  name: string;
+  group: 'startup' | 'loading' | 'analysis' | 'execution' | 'finish' | 'other';
+  duration: number;
+}
+
+export interface ProfileSummary {
+  totalTime: number;
+  actionCount: number;
+  criticalPath: {
+    duration: number;
+    components: ActionTiming[];
+  };
+  phases: PhaseTiming[];
+  slowestActions: ActionTiming[];
+  mnemonics: MnemonicTiming[];
+  spawns: {
+    remote: number;
+    cacheHit: number;
+    local: number;
+    unknown: number;
+  };
+}
+
+export interface BuildEventSummary {
+  invocationId?: string;
+  command?: string;
+  commandLine?: string[];
+  scmRevision?: string;
+  success: boolean;
+  exitCode?: number;
+  exitCodeName?: string;
+  resultsUrl?: string;
+  wallTime?: number;
+  criticalPathTime?: number;
+  failedTargets: { label: string; stderr?: string }[];
+  failedTests: string[];
+  flakyTests: string[];
+  slowestTests: { label: string; duration: number }[];
+  actionsExecuted?: number;
+  actionCacheHits?: number;
+  actionCacheMisses?: number;
+  runnerCounts: Record<string, number>;
+  failedActions: number;
+  mnemonics: MnemonicMetrics[];
+  workerCount?: number;
+  /**
+   * Machine-wide network counters from `networkMetrics.systemNetworkStats`. They include
+   * all traffic of the host, not only the cache, so they are not used as transfer metrics.
+   */
+  hostBytesSent?: number;
+  hostBytesReceived?: number;
 }
\ No newline at end of file
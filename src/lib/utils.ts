@@ -6,6 +6,12 @@ export function formatMarkdown(title: string, content: string): string {
   return `# ${title}\n\n${content}`;
 }
 
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
 export function truncateResponse(text: string, maxTokens: number): string {
   const avgCharsPerToken = 4;
   const maxChars = maxTokens * avgCharsPerToken;
@@ -17,6 +23,28 @@ export function truncateResponse(text: string, maxTokens: number): string {
   return text.substring(0, maxChars) + '\n\n[Response truncated for length]';
 }
 
+// Shorter values would match ordinary words in the output.
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Replaces every occurrence of the given secrets in strings anywhere inside `value`,
+ * so a key the server was started with never ends up in a tool response.
+ */
+export function redactSecrets<T>(value: T, secrets: (string | undefined)[]): T {
+  const keys = secrets.filter((secret): secret is string => !!secret && secret.length >= MIN_SECRET_LENGTH);
+  if (keys.length === 0) return value;
+
+  const redact = (item: unknown): unknown => {
+    if (typeof item === 'string') return keys.reduce((text, key) => text.split(key).join('<redacted>'), item);
+    if (Array.isArray(item)) return item.map(redact);
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, redact(entry)]));
+    }
+    return item;
+  };
+  return redact(value) as T;
+}
+
 export function parseApiKey(headers: Record<string, string | string[] | undefined>): string | undefined {
   const headerKeys = [
     'authorization',
@@ -0,0 +1,100 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { DetectedRuleset, WorkspaceInfo, WorkspaceLanguage } from './types.js';
+
+const RULESET_LANGUAGES: Record<string, WorkspaceLanguage> = {
+  rules_rust: 'rust',
+  rules_go: 'go',
+  io_bazel_rules_go: 'go',
+  rules_python: 'python',
+  rules_java: 'java',
+  rules_jvm_external: 'java',
+  rules_kotlin: 'java',
+  io_bazel_rules_kotlin: 'java',
+  contrib_rules_jvm: 'java',
+  rules_cc: 'cpp',
+  toolchains_llvm: 'cpp',
+  hermetic_cc_toolchain: 'cpp',
+  aspect_rules_js: 'js',
+  aspect_rules_ts: 'js',
+  rules_nodejs: 'js',
+  build_bazel_rules_nodejs: 'js'
+};
+
+/**
+ * Inspects MODULE.bazel, WORKSPACE and .bazelversion to find the rulesets and
+ * Bazel version a workspace uses.
+ */
+export function detectWorkspace(workspacePath: string): WorkspaceInfo {
+  if (!existsSync(workspacePath)) {
+    throw new Error(`Workspace not found: ${workspacePath}`);
+  }
+
+  const moduleFile = readOptional(workspacePath, 'MODULE.bazel');
+  const workspaceFile = readOptional(workspacePath, 'WORKSPACE.bazel') ?? readOptional(workspacePath, 'WORKSPACE');
+
+  if (moduleFile === undefined && workspaceFile === undefined) {
+    throw new Error(`No MODULE.bazel or WORKSPACE file found in ${workspacePath}`);
+  }
+
+  const rulesets = new Map<string, DetectedRuleset>();
+  const addRuleset = (name: string, repoName: string, source: DetectedRuleset['source']) => {
+    const language = RULESET_LANGUAGES[name];
+    if (!language || rulesets.has(name)) return;
+    rulesets.set(name, { name, repoName, language, source });
+  };
+
+  if (moduleFile) {
+    for (const dep of parseBazelDeps(moduleFile)) {
+      addRuleset(dep.name, dep.repoName || dep.name, 'MODULE.bazel');
+    }
+  }
+
+  if (workspaceFile) {
+    for (const match of workspaceFile.matchAll(/\bname\s*=\s*"([^"]+)"/g)) {
+      addRuleset(match[1], match[1], 'WORKSPACE');
+    }
+    for (const match of workspaceFile.matchAll(/load\(\s*"@([^/"]+)\/\//g)) {
+      addRuleset(match[1], match[1], 'WORKSPACE');
+    }
+  }
+
+  const languages = [...new Set([...rulesets.values()].map(r => r.language))];
+
+  return {
+    path: workspacePath,
+    bzlmod: moduleFile !== undefined,
+    bazelVersion: readBazelVersion(workspacePath),
+    rulesets: [...rulesets.values()],
+    languages
+  };
+}
+
+export function parseBazelDeps(moduleFile: string): { name: string; repoName?: string }[] {
+  const deps: { name: string; repoName?: string }[] = [];
+
+  for (const match of moduleFile.matchAll(/bazel_dep\(([^)]*)\)/g)) {
+    const args = match[1];
+    const name = args.match(/\bname\s*=\s*"([^"]+)"/)?.[1];
+    if (!name) continue;
+    deps.push({ name, repoName: args.match(/\brepo_name\s*=\s*"([^"]+)"/)?.[1] });
+  }
+
+  return deps;
+}
+
+function readBazelVersion(workspacePath: string): string | undefined {
+  const bazelversion = readOptional(workspacePath, '.bazelversion');
+  if (bazelversion) {
+    const version = bazelversion.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('#'));
+    if (version) return version;
+  }
+
+  const bazeliskrc = readOptional(workspacePath, '.bazeliskrc');
+  return bazeliskrc?.match(/^USE_BAZEL_VERSION=(.+)$/m)?.[1].trim();
+}
+
+function readOptional(dir: string, file: string): string | undefined {
+  const path = join(dir, file);
+  return existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+}
\ No newline at end of file
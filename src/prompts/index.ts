@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { Platform, StorageBackend, type PromptDefinition, type Scale } from '../lib/types.js';
+import { getDocsUri } from '../resources/index.js';
+
+const OnboardRepoSchema = z.object({
+  workspacePath: z.string().describe('Path to the Bazel workspace to onboard'),
+  bazelrcPath: z.string().optional().describe('Existing .bazelrc to merge into (default: <workspacePath>/.bazelrc)'),
+  nativelinkUrl: z.string().optional().describe('Self-hosted Nativelink endpoint; omit for Nativelink Cloud')
+});
+
+const DiagnoseCacheMissesSchema = z.object({
+  baselineLogPath: z.string().describe('Execution log of the build that populated the cache'),
+  candidateLogPath: z.string().describe('Execution log of the build that missed the cache'),
+  bepPath: z.string().optional().describe('Build Event Protocol JSON file of the candidate build')
+});
+
+const SizeClusterSchema = z.object({
+  platform: Platform.describe('Where the cluster runs: kubernetes, docker, aws, gcp or azure'),
+  engineers: z.coerce.number().int().positive().optional().describe('Number of engineers building against the cluster'),
+  storageBackend: StorageBackend.optional().describe('Persistent CAS storage: memory, filesystem, s3 or gcs')
+});
+
+export const onboardRepoPrompt: PromptDefinition<typeof OnboardRepoSchema> = {
+  name: 'onboard-repo',
+  title: 'Onboard this repo to Nativelink',
+  description: 'Merge a Nativelink config into the workspace .bazelrc and check it for problems',
+  schema: OnboardRepoSchema,
+  build: args => {
+    const bazelrcPath = args.bazelrcPath || `${args.workspacePath.replace(/\/+$/, '')}/.bazelrc`;
+    return [
+      `Onboard the Bazel workspace at \`${args.workspacePath}\` to Nativelink.`,
+      '',
+      '1. Generate a config merged into the existing .bazelrc and show me the diff:',
+      ...toolCall('get-bazel-config', {
+        workspacePath: args.workspacePath,
+        existingBazelrcPath: bazelrcPath,
+        outputFormat: 'diff',
+        ...(args.nativelinkUrl && { nativelinkUrl: args.nativelinkUrl })
+      }),
+      '   If there is no .bazelrc yet, call it without `existingBazelrcPath` and `outputFormat` instead.',
+      '2. Check the current .bazelrc for settings that would hurt caching:',
+      ...toolCall('validate-bazelrc', { bazelrcPath, workspacePath: args.workspacePath }),
+      '3. Summarize what the diff adds, which validation issues to fix first, and how to try it with',
+      '   `bazel build --config=nativelink //...`. API keys belong in a gitignored .bazelrc.user, not in .bazelrc.',
+      '',
+      `Background: ${getDocsUri('setup')}`
+    ].join('\n');
+  }
+};
+
+export const diagnoseCacheMissesPrompt: PromptDefinition<typeof DiagnoseCacheMissesSchema> = {
+  name: 'diagnose-cache-misses',
+  title: 'Diagnose my cache misses',
+  description: 'Compare two execution logs and explain why actions missed the remote cache',
+  schema: DiagnoseCacheMissesSchema,
+  build: args => [
+    'Find out why my Bazel build missed the Nativelink cache.',
+    '',
+    '1. Compare the two execution logs:',
+    ...toolCall('analyze-cache-misses', {
+      baselineLogPath: args.baselineLogPath,
+      candidateLogPath: args.candidateLogPath
+    }),
+    ...(args.bepPath ? [
+      '2. Check the candidate build for failures and its cache statistics:',
+      ...toolCall('analyze-build-events', { bepPath: args.bepPath })
+    ] : []),
+    `${args.bepPath ? 3 : 2}. Group the misses by root cause and propose concrete .bazelrc or BUILD changes for each.`,
+    '   If you suggest new flags, run them through `validate-bazelrc` before showing them.',
+    '',
+    'The logs come from `bazel build --execution_log_json_file=<file> //...`, run once per build being compared.',
+    '',
+    `Background: ${getDocsUri('troubleshooting')}`
+  ].join('\n')
+};
+
+export const sizeClusterPrompt: PromptDefinition<typeof SizeClusterSchema> = {
+  name: 'size-cluster',
+  title: 'Size a self-hosted cluster',
+  description: 'Pick a deployment scale for a self-hosted Nativelink cluster and generate its manifests',
+  schema: SizeClusterSchema,
+  build: args => {
+    const scale = getScaleForTeam(args.engineers);
+    const features = ['monitoring', 'autoscaling', ...(scale === 'large' || scale === 'enterprise' ? ['high_availability'] : [])];
+    return [
+      `Size a self-hosted Nativelink cluster on ${args.platform}${args.engineers ? ` for about ${args.engineers} engineers` : ''}.`,
+      '',
+      `1. Generate the deployment at ${scale} scale${args.engineers ? '' : ' (no team size given, so start in the middle)'}:`,
+      ...toolCall('generate-deployment-config', {
+        platform: args.platform,
+        scale,
+        features,
+        ...(args.storageBackend && { storageBackend: args.storageBackend })
+      }),
+      '2. Explain the node counts, storage sizes and rough monthly cost, and whether a different scale fits better',
+      '   (small up to ~10 engineers, medium up to ~50, large up to ~200, enterprise beyond).',
+      '3. Show how to point Bazel at the cluster once it is up:',
+      ...toolCall('get-bazel-config', { projectType: 'mixed', nativelinkUrl: 'grpc://<cluster-address>:50051' }),
+      '',
+      `Background: ${getDocsUri('optimization')}`
+    ].join('\n');
+  }
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  onboardRepoPrompt,
+  diagnoseCacheMissesPrompt,
+  sizeClusterPrompt
+];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find(prompt => prompt.name === name);
+}
+
+export function toPromptArguments(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, value]) => ({
+    name,
+    description: value.description,
+    required: !value.isOptional()
+  }));
+}
+
+function getScaleForTeam(engineers?: number): Scale {
+  if (engineers === undefined) return 'medium';
+  if (engineers <= 10) return 'small';
+  if (engineers <= 50) return 'medium';
+  if (engineers <= 200) return 'large';
+  return 'enterprise';
+}
+
+function toolCall(name: string, args: Record<string, unknown>): string[] {
+  return [
+    `   Call \`${name}\` with:`,
+    '   ```json',
+    ...JSON.stringify(args, null, 2).split('\n').map(line => `   ${line}`),
+    '   ```'
+  ];
+}
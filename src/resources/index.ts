@@ -0,0 +1,72 @@
+import { DocsTopic } from '../lib/types.js';
+import { DOCS_URI_PREFIX, REFERENCE_PAGES } from '../lib/docs-corpus.js';
+import type { NativelinkAPI } from '../lib/api.js';
+
+const DOC_RESOURCES: Record<DocsTopic, { title: string; description: string }> = {
+  setup: {
+    title: 'Nativelink Cloud Setup Guide',
+    description: 'Sign up, get a personalized .bazelrc and run the first remote build'
+  },
+  migration: {
+    title: 'Migration to Nativelink Cloud',
+    description: 'Move an existing Bazel project from local builds or another remote cache'
+  },
+  optimization: {
+    title: 'Nativelink Performance Optimization',
+    description: 'Flags and practices that raise cache hit rates and speed up remote execution'
+  },
+  troubleshooting: {
+    title: 'Nativelink Troubleshooting',
+    description: 'Authentication errors, cache misses and connectivity problems'
+  },
+  api: {
+    title: 'Nativelink Cloud API Reference',
+    description: 'Endpoints and flags for the Nativelink Cloud cache, scheduler and BES'
+  }
+};
+
+export function getDocsUri(topic: DocsTopic): string {
+  return `${DOCS_URI_PREFIX}${topic}`;
+}
+
+export function listDocResources() {
+  const topics = DocsTopic.options.map(topic => ({
+    name: topic,
+    title: DOC_RESOURCES[topic].title,
+    description: DOC_RESOURCES[topic].description
+  }));
+  const references = REFERENCE_PAGES.map(page => ({
+    name: page.id,
+    title: page.title,
+    description: page.description
+  }));
+
+  return [...topics, ...references].map(resource => ({
+    uri: `${DOCS_URI_PREFIX}${resource.name}`,
+    ...resource,
+    mimeType: 'text/markdown'
+  }));
+}
+
+/**
+ * Reads a `nativelink://docs/<id>` resource. Topic guides go through the docs API;
+ * reference pages are served from the bundled corpus. A `#section` anchor, as
+ * returned by `search-nativelink-docs`, is ignored and the whole page is returned.
+ * Returns undefined for URIs that do not name a known page.
+ */
+export async function readDocResource(uri: string, api: NativelinkAPI) {
+  if (!uri.startsWith(DOCS_URI_PREFIX)) return undefined;
+
+  const id = uri.slice(DOCS_URI_PREFIX.length).split('#')[0];
+  const topic = DocsTopic.safeParse(id);
+  const text = topic.success
+    ? (await api.fetchDocumentation(topic.data)).content
+    : REFERENCE_PAGES.find(page => page.id === id)?.content;
+  if (text === undefined) return undefined;
+
+  return {
+    uri,
+    mimeType: 'text/markdown',
+    text
+  };
+}
\ No newline at end of file
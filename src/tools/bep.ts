@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { readBuildEvents, summarizeBuildEvents, toBuildMetrics } from '../lib/bep.js';
+import type { ToolDefinition } from '../lib/types.js';
+import { formatBytes } from '../lib/utils.js';
+
+export const AnalyzeBuildEventsSchema = z.object({
+  bepData: z.string().optional().describe('Contents of a --build_event_json_file'),
+  bepPath: z.string().optional().describe('Path to a --build_event_json_file, used instead of bepData')
+}).refine(p => p.bepData || p.bepPath, {
+  message: 'bepData or bepPath is required',
+  path: ['bepData']
+});
+
+export type AnalyzeBuildEventsParams = z.infer<typeof AnalyzeBuildEventsSchema>;
+
+export const analyzeBuildEventsTool: ToolDefinition<typeof AnalyzeBuildEventsSchema> = {
+  name: 'analyze-build-events',
+  description: 'Summarize a Bazel Build Event Protocol file: exit code, failed targets, flaky and slow tests, cache statistics and results link',
+  schema: AnalyzeBuildEventsSchema,
+  handler: params => analyzeBuildEvents(params)
+};
+
+export function analyzeBuildEvents(params: AnalyzeBuildEventsParams): string {
+  const summary = summarizeBuildEvents(readBuildEvents(params.bepData, params.bepPath));
+  const metrics = toBuildMetrics(summary);
+
+  const lines: string[] = [
+    '# Build Event Summary',
+    '',
+    `- **Result:** ${summary.success ? '✅ Success' : '❌ Failed'} (exit code ${summary.exitCode ?? 'unknown'}${summary.exitCodeName ? `, ${summary.exitCodeName}` : ''})`
+  ];
+
+  if (summary.command) lines.push(`- **Command:** bazel ${summary.command}`);
+  if (summary.invocationId) lines.push(`- **Invocation:** ${summary.invocationId}`);
+  if (summary.resultsUrl) lines.push(`- **Results:** ${summary.resultsUrl}`);
+  if (summary.wallTime !== undefined) lines.push(`- **Wall time:** ${summary.wallTime.toFixed(1)}s`);
+  if (summary.criticalPathTime !== undefined) lines.push(`- **Critical path:** ${summary.criticalPathTime.toFixed(1)}s`);
+  lines.push('');
+
+  if (summary.failedTargets.length > 0) {
+    lines.push('## Failed Targets', '');
+    for (const target of summary.failedTargets) {
+      lines.push(`### ${target.label}`);
+      if (target.stderr) {
+        lines.push('```', target.stderr.trim(), '```');
+      }
+      lines.push('');
+    }
+  }
+
+  if (summary.failedTests.length > 0 || summary.flakyTests.length > 0 || summary.slowestTests.length > 0) {
+    lines.push('## Tests', '');
+    for (const label of summary.failedTests) lines.push(`- ❌ ${label}`);
+    for (const label of summary.flakyTests) lines.push(`- ⚠️ ${label} (flaky)`);
+    if (summary.slowestTests.length > 0) {
+      lines.push('', '**Slowest test attempts:**');
+      for (const test of summary.slowestTests.slice(0, 5)) {
+        lines.push(`- ${test.duration.toFixed(1)}s ${test.label}`);
+      }
+    }
+    lines.push('');
+  }
+
+  lines.push('## Action Execution', '');
+  if (summary.actionsExecuted !== undefined) lines.push(`- Actions executed: ${summary.actionsExecuted}`);
+  if (summary.actionCacheHits !== undefined) {
+    lines.push(`- Local action cache: ${summary.actionCacheHits} hits, ${summary.actionCacheMisses ?? 0} misses`);
+  }
+  for (const [runner, count] of Object.entries(summary.runnerCounts)) {
+    if (runner === 'total') continue;
+    lines.push(`- ${runner}: ${count}`);
+  }
+  if (summary.failedActions > 0) lines.push(`- Failed actions: ${summary.failedActions}`);
+  if (summary.workerCount !== undefined) lines.push(`- Persistent workers: ${summary.workerCount}`);
+  if (summary.hostBytesSent !== undefined || summary.hostBytesReceived !== undefined) {
+    lines.push(`- Host network (all traffic of the machine, not only the cache): ${formatBytes(summary.hostBytesSent || 0)} sent, ${formatBytes(summary.hostBytesReceived || 0)} received`);
+  }
+  lines.push('');
+
+  if (summary.mnemonics.length > 0) {
+    lines.push('### By Mnemonic', '');
+    lines.push('| Mnemonic | Actions | CPU time | Workers |');
+    lines.push('|----------|---------|----------|---------|');
+    for (const m of summary.mnemonics.slice(0, 10)) {
+      const cpu = m.totalTime !== undefined ? `${m.totalTime.toFixed(1)}s` : '-';
+      lines.push(`| ${m.mnemonic} | ${m.actions} | ${cpu} | ${m.workers ?? '-'} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push(
+    '## Derived Build Metrics',
+    '',
+    'Pass these to `analyze-build-performance`, or give it the same file via `bepData`/`bepPath`:',
+    '```json',
+    JSON.stringify(metrics, null, 2),
+    '```'
+  );
+
+  return lines.join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import { ProjectType, type ToolDefinition } from '../lib/types.js';
+import { API_KEY_HEADER } from '../lib/flags.js';
+import { NATIVELINK_CONFIG_NAME } from '../lib/bazelrc-merge.js';
+import { isCloudEndpoint, resolveEndpoints } from '../lib/endpoints.js';
+
+export const CiProvider = z.enum(['github', 'gitlab', 'buildkite', 'jenkins']);
+export type CiProvider = z.infer<typeof CiProvider>;
+
+export const GenerateCiConfigSchema = z.object({
+  provider: CiProvider.describe('CI system to generate the pipeline for'),
+  projectType: ProjectType.default('mixed').describe('Type of project (default: mixed)'),
+  features: z.array(z.string()).optional().describe('Features enabled in get-bazel-config: remote_cache, remote_execution, bes, metrics'),
+  command: z.enum(['build', 'test']).default('test').describe('Bazel command to run; test also builds every target (default: test)'),
+  targets: z.string().default('//...').describe('Bazel targets (default: //...)'),
+  bazelConfig: z.string().regex(/^[A-Za-z0-9_-]+$/).default(NATIVELINK_CONFIG_NAME).describe(`The --config group get-bazel-config wrote (default: ${NATIVELINK_CONFIG_NAME})`),
+  nativelinkUrl: z.string().optional().describe('Nativelink server URL, if self-hosted (defaults to cloud)'),
+  besResultsUrl: z.string().optional().describe('Base URL for --bes_results_url (default: the Nativelink Cloud build page)'),
+  secretName: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).default('NATIVELINK_API_KEY').describe('CI secret holding the Nativelink API key (default: NATIVELINK_API_KEY)'),
+  besSecretName: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).optional().describe('CI secret holding the BES API key, if different from secretName')
+});
+
+export type GenerateCiConfigParams = z.infer<typeof GenerateCiConfigSchema>;
+
+export const generateCiConfigTool: ToolDefinition<typeof GenerateCiConfigSchema> = {
+  name: 'generate-ci-config',
+  description: 'Generate a GitHub Actions, GitLab CI, Buildkite or Jenkins pipeline that runs Bazel against Nativelink and keeps the profile and BEP file',
+  schema: GenerateCiConfigSchema,
+  handler: params => generateCiConfig(params)
+};
+
+const ARTIFACTS_DIR = 'ci-artifacts';
+
+const PIPELINE_FILES: Record<CiProvider, string> = {
+  github: '.github/workflows/nativelink.yml',
+  gitlab: '.gitlab-ci.yml',
+  buildkite: '.buildkite/pipeline.yml',
+  jenkins: 'Jenkinsfile'
+};
+
+export function generateCiConfig(params: GenerateCiConfigParams): string {
+  const features = params.features || ['remote_cache', 'remote_execution', 'bes'];
+  const { script, secrets } = getBazelScript(params, features);
+
+  let pipeline: string;
+  switch (params.provider) {
+    case 'github':
+      pipeline = generateGitHubActions(params, script, secrets);
+      break;
+    case 'gitlab':
+      pipeline = generateGitLabCi(params, script);
+      break;
+    case 'buildkite':
+      pipeline = generateBuildkite(params, script, secrets);
+      break;
+    case 'jenkins':
+      pipeline = generateJenkinsfile(params, script, secrets);
+      break;
+  }
+
+  const lines: string[] = [
+    `# CI Pipeline: ${params.provider}`,
+    '',
+    `Runs \`bazel ${params.command} --config=${params.bazelConfig} ${params.targets}\` for a ${params.projectType} project and keeps the profile and build event file of every run.`,
+    '',
+    `## ${PIPELINE_FILES[params.provider]}`,
+    '',
+    `\`\`\`${params.provider === 'jenkins' ? 'groovy' : 'yaml'}`,
+    pipeline,
+    '```',
+    '',
+    '## Setup',
+    '',
+    ...getSecretSetup(params.provider, secrets).map(step => `- ${step}`),
+    `- The \`--config=${params.bazelConfig}\` group comes from \`get-bazel-config\` with \`existingBazelrcPath\`; commit the merged \`.bazelrc\`.`,
+    ...(secrets.length > 0
+      ? [`- The API key is written to a temporary rc file instead of the command line, and \`${API_KEY_HEADER}\` values are redacted from the build event file before it is uploaded.`]
+      : []),
+    `- Download the \`${ARTIFACTS_DIR}\` artifact and pass \`profile.json.gz\` (base64) or \`bep.json\` to \`analyze-build-performance\`, or two runs to \`compare-builds\`.`
+  ];
+
+  return lines.join('\n');
+}
+
+// The same POSIX shell script runs on every provider; each one only differs in how secrets reach it.
+function getBazelScript(params: GenerateCiConfigParams, features: string[]): { script: string[]; secrets: string[] } {
+  const endpoints = resolveEndpoints(params);
+  const headers: string[] = [];
+  const secrets = new Set<string>();
+  const addHeader = (flag: string, secret: string) => {
+    headers.push(`build --${flag}=${API_KEY_HEADER}=\${${secret}}`);
+    secrets.add(secret);
+  };
+  if ((features.includes('remote_cache') || features.includes('remote_execution')) &&
+      (isCloudEndpoint(endpoints.cas) || isCloudEndpoint(endpoints.scheduler))) {
+    addHeader('remote_header', params.secretName);
+  }
+  if (features.includes('bes') && isCloudEndpoint(endpoints.bes)) {
+    addHeader('bes_header', params.besSecretName || params.secretName);
+  }
+
+  const resultsUrl = params.besResultsUrl || endpoints.resultsUrl;
+  const flags = [
+    `--config=${params.bazelConfig}`,
+    '--remote_download_minimal',
+    ...(features.includes('bes') && resultsUrl ? [`--bes_results_url=${resultsUrl}`] : []),
+    `--profile=${ARTIFACTS_DIR}/profile.json.gz`,
+    `--build_event_json_file=${ARTIFACTS_DIR}/bep.json`,
+    ...(features.includes('metrics') ? [`--execution_log_json_file=${ARTIFACTS_DIR}/exec.json`] : [])
+  ];
+
+  const rc = headers.length > 0 ? '--bazelrc="$NATIVELINK_RC" ' : '';
+  const script = [
+    'set -eu',
+    `mkdir -p ${ARTIFACTS_DIR}`,
+    ...(headers.length > 0
+      ? ['NATIVELINK_RC="$(mktemp)"', ...headers.map(line => `echo "${line}" >> "$NATIVELINK_RC"`)]
+      : []),
+    'status=0',
+    `bazel ${rc}${params.command} \\`,
+    ...flags.map(flag => `  ${flag} \\`),
+    `  ${params.targets} || status=$?`,
+    `sed -i -E 's/${API_KEY_HEADER}=[^" ]*/${API_KEY_HEADER}=<redacted>/g' ${ARTIFACTS_DIR}/*.json || true`,
+    ...(headers.length > 0 ? ['rm -f "$NATIVELINK_RC"'] : []),
+    'exit $status'
+  ];
+  return { script, secrets: [...secrets] };
+}
+
+function generateGitHubActions(params: GenerateCiConfigParams, script: string[], secrets: string[]): string {
+  return [
+    'name: Bazel (Nativelink)',
+    '',
+    'on:',
+    '  push:',
+    '    branches: [main]',
+    '  pull_request:',
+    '',
+    'jobs:',
+    '  bazel:',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+    '      - uses: actions/checkout@v4',
+    `      - name: Bazel ${params.command}`,
+    ...(secrets.length > 0 ? ['        env:'] : []),
+    ...secrets.map(secret => `          ${secret}: \${{ secrets.${secret} }}`),
+    '        run: |',
+    ...indent(script, 10),
+    '      - name: Upload build artifacts',
+    '        if: always()',
+    '        uses: actions/upload-artifact@v4',
+    '        with:',
+    '          name: bazel-build-artifacts',
+    `          path: ${ARTIFACTS_DIR}/`,
+    '          retention-days: 14'
+  ].join('\n');
+}
+
+function generateGitLabCi(params: GenerateCiConfigParams, script: string[]): string {
+  return [
+    'bazel:',
+    '  image: gcr.io/bazel-public/bazel:latest',
+    '  script:',
+    '    - |',
+    ...indent(script, 6),
+    '  artifacts:',
+    '    when: always',
+    '    expire_in: 2 weeks',
+    '    paths:',
+    `      - ${ARTIFACTS_DIR}/`
+  ].join('\n');
+}
+
+// Buildkite interpolates $VAR when the pipeline is uploaded, so runtime variables are escaped as $$VAR.
+function generateBuildkite(params: GenerateCiConfigParams, script: string[], secrets: string[]): string {
+  const command = [
+    ...secrets.map(secret => `export ${secret}="$(buildkite-agent secret get ${secret})"`),
+    ...script
+  ].map(line => line.replace(/\$/g, '$$$$'));
+
+  return [
+    'steps:',
+    `  - label: ":bazel: Bazel ${params.command}"`,
+    '    command: |',
+    ...indent(command, 6),
+    '    artifact_paths:',
+    `      - "${ARTIFACTS_DIR}/**/*"`
+  ].join('\n');
+}
+
+// Groovy ''' strings do not interpolate ${...} but do process backslash escapes.
+function generateJenkinsfile(params: GenerateCiConfigParams, script: string[], secrets: string[]): string {
+  const credentials = secrets
+    .map(secret => `string(credentialsId: '${toCredentialsId(secret)}', variable: '${secret}')`)
+    .join(', ');
+  const sh = ["sh '''", ...indent(script.map(line => line.replace(/\\/g, '\\\\')), 2), "'''"];
+  const steps = secrets.length > 0
+    ? [`withCredentials([${credentials}]) {`, ...indent(sh, 2), '}']
+    : sh;
+
+  return [
+    'pipeline {',
+    '  agent any',
+    '  stages {',
+    `    stage('Bazel ${params.command}') {`,
+    '      steps {',
+    ...indent(steps, 8),
+    '      }',
+    '    }',
+    '  }',
+    '  post {',
+    '    always {',
+    `      archiveArtifacts artifacts: '${ARTIFACTS_DIR}/**', allowEmptyArchive: true`,
+    '    }',
+    '  }',
+    '}'
+  ].join('\n');
+}
+
+function getSecretSetup(provider: CiProvider, secrets: string[]): string[] {
+  if (secrets.length === 0) return [];
+  const names = secrets.map(secret => `\`${secret}\``).join(' and ');
+  switch (provider) {
+    case 'github':
+      return [`Add ${names} under Settings → Secrets and variables → Actions.`];
+    case 'gitlab':
+      return [`Add ${names} under Settings → CI/CD → Variables, marked Masked and Protected.`];
+    case 'buildkite':
+      return [`Add ${names} to Buildkite Secrets for the cluster the agents run in.`];
+    case 'jenkins':
+      return [`Add ${secrets.map(secret => `\`${toCredentialsId(secret)}\``).join(' and ')} as "Secret text" credentials.`];
+  }
+}
+
+function toCredentialsId(secret: string): string {
+  return secret.toLowerCase().replace(/_/g, '-');
+}
+
+function indent(lines: string[], spaces: number): string[] {
+  const prefix = ' '.repeat(spaces);
+  return lines.map(line => line ? prefix + line : line);
+}
\ No newline at end of file
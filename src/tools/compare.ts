@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { BuildMetricsSchema, loadBuild, type LoadedBuild } from './performance.js';
+import { scoreBuild } from '../lib/scoring.js';
+import type { ActionTiming, ToolDefinition } from '../lib/types.js';
+import { formatBytes } from '../lib/utils.js';
+
+const BuildInputSchema = z.object({
+  label: z.string().optional().describe('Name for this build in the report, e.g. "local" or "with NativeLink"'),
+  metrics: BuildMetricsSchema.optional().describe('Build metrics; values given here override those derived from the files'),
+  profileData: z.string().optional().describe('Bazel JSON trace profile (raw JSON, or base64 of a .json.gz profile)'),
+  bepData: z.string().optional().describe('Contents of a --build_event_json_file'),
+  bepPath: z.string().optional().describe('Path to a --build_event_json_file, used instead of bepData')
+}).refine(b => b.metrics || b.profileData || b.bepData || b.bepPath, {
+  message: 'Each build needs metrics, profileData, bepData or bepPath'
+});
+
+export const CompareBuildsSchema = z.object({
+  baseline: BuildInputSchema.describe('The build before the change'),
+  candidate: BuildInputSchema.describe('The build after the change'),
+  topActions: z.number().int().min(1).max(50).default(10).describe('Number of actions with the largest duration change to list (default: 10)'),
+  threshold: z.number().min(0.01).max(1).default(0.05).describe('Relative change below which a metric counts as unchanged (default: 0.05)')
+});
+
+export type CompareBuildsParams = z.infer<typeof CompareBuildsSchema>;
+
+export const compareBuildsTool: ToolDefinition<typeof CompareBuildsSchema> = {
+  name: 'compare-builds',
+  description: 'Compare two builds (metrics, profiles or BEP files), e.g. before and after enabling Nativelink, and report the deltas with a verdict',
+  schema: CompareBuildsSchema,
+  handler: params => compareBuilds(params)
+};
+
+type Unit = 'seconds' | 'ratio' | 'count' | 'bytes' | 'score';
+
+interface MetricRow {
+  label: string;
+  unit: Unit;
+  better?: 'lower' | 'higher';
+  /** Rows that decide the verdict. */
+  key?: boolean;
+  get(build: LoadedBuild): number | undefined;
+}
+
+const ROWS: MetricRow[] = [
+  { label: 'Wall time', unit: 'seconds', better: 'lower', key: true, get: b => b.metrics.totalTime ?? b.profile?.totalTime },
+  { label: 'Critical path', unit: 'seconds', better: 'lower', key: true, get: b => b.events?.criticalPathTime ?? nonZero(b.profile?.criticalPath.duration) },
+  { label: 'Cache hit rate', unit: 'ratio', better: 'higher', key: true, get: b => b.metrics.cacheHitRate },
+  { label: 'Remote execution share', unit: 'ratio', get: remoteShare },
+  { label: 'Remote execution time', unit: 'seconds', get: b => b.metrics.remoteExecutionTime },
+  { label: 'Local execution time', unit: 'seconds', better: 'lower', get: b => b.metrics.localExecutionTime },
+  { label: 'Actions', unit: 'count', get: b => b.metrics.totalActions ?? b.profile?.actionCount },
+  { label: 'Failed actions', unit: 'count', better: 'lower', key: true, get: b => b.metrics.failedActions },
+  { label: 'Bytes transferred', unit: 'bytes', better: 'lower', get: b => b.metrics.networkTransferSize },
+  { label: 'Overall score', unit: 'score', better: 'higher', get: b => scoreBuild(b.metrics, b.profile).overall ?? undefined }
+];
+
+export function compareBuilds(params: CompareBuildsParams): string {
+  const before = loadBuild(params.baseline, Infinity);
+  const after = loadBuild(params.candidate, Infinity);
+  const beforeLabel = params.baseline.label || 'baseline';
+  const afterLabel = params.candidate.label || 'candidate';
+
+  for (const [label, build] of [[beforeLabel, before], [afterLabel, after]] as const) {
+    if (build.profileError) {
+      throw new Error(`Unable to parse the ${label} profile: ${build.profileError}`);
+    }
+  }
+
+  const improved: string[] = [];
+  const regressed: string[] = [];
+  const table: string[] = [
+    `| Metric | ${beforeLabel} | ${afterLabel} | Change |`,
+    '|--------|------|------|--------|'
+  ];
+
+  for (const row of ROWS) {
+    const a = row.get(before);
+    const b = row.get(after);
+    if (a === undefined && b === undefined) continue;
+
+    let change = '-';
+    if (a !== undefined && b !== undefined) {
+      const direction = compare(row, a, b, params.threshold);
+      change = `${formatChange(row.unit, a, b)}${direction === 'better' ? ' ✅' : direction === 'worse' ? ' ⚠️' : ''}`;
+      if (row.key && direction === 'better') improved.push(describe(row, a, b));
+      if (row.key && direction === 'worse') regressed.push(describe(row, a, b));
+    }
+    table.push(`| ${row.label} | ${formatValue(row.unit, a)} | ${formatValue(row.unit, b)} | ${change} |`);
+  }
+
+  const lines: string[] = [
+    `# Build Comparison: ${beforeLabel} → ${afterLabel}`,
+    '',
+    `**Verdict:** ${verdict(improved, regressed)}`,
+    '',
+    '## Metrics',
+    '',
+    ...table,
+    ''
+  ];
+
+  if (before.profile && after.profile) {
+    const spawns = [before.profile.spawns, after.profile.spawns];
+    lines.push('## Spawn Execution', '');
+    lines.push(`| Spawns | ${beforeLabel} | ${afterLabel} |`, '|--------|------|------|');
+    lines.push(`| Remote execution | ${spawns[0].remote} | ${spawns[1].remote} |`);
+    lines.push(`| Remote cache hits | ${spawns[0].cacheHit} | ${spawns[1].cacheHit} |`);
+    lines.push(`| Local execution | ${spawns[0].local} | ${spawns[1].local} |`, '');
+
+    const changes = getActionChanges(before.profile.slowestActions, after.profile.slowestActions).slice(0, params.topActions);
+    if (changes.length > 0) {
+      lines.push('## Actions With the Largest Duration Change', '');
+      lines.push(`| Action | Mnemonic | ${beforeLabel} | ${afterLabel} | Change |`, '|--------|----------|------|------|--------|');
+      for (const change of changes) {
+        lines.push(
+          `| ${change.name} | ${change.mnemonic} | ${formatValue('seconds', change.before)} | ` +
+          `${formatValue('seconds', change.after)} | ${formatSignedSeconds((change.after ?? 0) - (change.before ?? 0))} |`
+        );
+      }
+      lines.push('');
+    }
+  }
+
+  const mnemonicChanges = getMnemonicChanges(before, after).slice(0, params.topActions);
+  if (mnemonicChanges.length > 0) {
+    lines.push('## Time by Mnemonic', '');
+    lines.push(`| Mnemonic | ${beforeLabel} | ${afterLabel} | Change |`, '|----------|------|------|--------|');
+    for (const change of mnemonicChanges) {
+      lines.push(
+        `| ${change.mnemonic} | ${formatValue('seconds', change.before)} | ${formatValue('seconds', change.after)} | ` +
+        `${formatSignedSeconds((change.after ?? 0) - (change.before ?? 0))} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (!before.profile || !after.profile) {
+    lines.push('_Give both builds a `profileData` profile to see which actions got faster or slower._');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function verdict(improved: string[], regressed: string[]): string {
+  if (improved.length > 0 && regressed.length === 0) return `✅ Improved: ${improved.join(', ')}.`;
+  if (regressed.length > 0 && improved.length === 0) return `⚠️ Regressed: ${regressed.join(', ')}.`;
+  if (improved.length > 0) return `➖ Mixed: ${improved.join(', ')}; but ${regressed.join(', ')}.`;
+  return '➖ No significant change in wall time, critical path, cache hit rate or failed actions.';
+}
+
+// Ratios compare in percentage points; everything else relative to the baseline.
+function compare(row: MetricRow, a: number, b: number, threshold: number): 'better' | 'worse' | 'same' | undefined {
+  if (!row.better) return undefined;
+  const delta = row.unit === 'ratio' ? b - a : a === 0 ? (b === 0 ? 0 : Math.sign(b)) : (b - a) / Math.abs(a);
+  if (Math.abs(delta) < threshold) return 'same';
+  return (delta < 0) === (row.better === 'lower') ? 'better' : 'worse';
+}
+
+function describe(row: MetricRow, a: number, b: number): string {
+  if (row.unit === 'ratio') {
+    const points = Math.round((b - a) * 100);
+    return `${row.label.toLowerCase()} ${points > 0 ? 'up' : 'down'} ${Math.abs(points)} pts`;
+  }
+  if (row.unit === 'count') {
+    return `${row.label.toLowerCase()} ${a} → ${b}`;
+  }
+  const percent = a === 0 ? '' : ` ${Math.abs(Math.round(((b - a) / a) * 100))}%`;
+  if (row.unit === 'seconds') return `${row.label.toLowerCase()}${percent} ${b < a ? 'faster' : 'slower'}`;
+  return `${row.label.toLowerCase()}${percent} ${b < a ? 'lower' : 'higher'}`;
+}
+
+interface DurationChange {
+  name: string;
+  mnemonic: string;
+  before?: number;
+  after?: number;
+}
+
+// Actions are matched by mnemonic and description, which names the file or target and is stable across builds.
+function getActionChanges(before: ActionTiming[], after: ActionTiming[]): DurationChange[] {
+  const changes = new Map<string, DurationChange>();
+  const add = (actions: ActionTiming[], side: 'before' | 'after') => {
+    for (const action of actions) {
+      const key = `${action.mnemonic}\n${action.name}`;
+      const change = changes.get(key) || { name: action.name, mnemonic: action.mnemonic };
+      change[side] = (change[side] ?? 0) + action.duration;
+      changes.set(key, change);
+    }
+  };
+  add(before, 'before');
+  add(after, 'after');
+
+  return sortByDelta([...changes.values()]);
+}
+
+function getMnemonicChanges(before: LoadedBuild, after: LoadedBuild): DurationChange[] {
+  const changes = new Map<string, DurationChange>();
+  for (const [build, side] of [[before, 'before'], [after, 'after']] as const) {
+    for (const m of build.metrics.mnemonics || []) {
+      if (m.totalTime === undefined) continue;
+      const change = changes.get(m.mnemonic) || { name: m.mnemonic, mnemonic: m.mnemonic };
+      change[side] = m.totalTime;
+      changes.set(m.mnemonic, change);
+    }
+  }
+  return sortByDelta([...changes.values()]);
+}
+
+function sortByDelta(changes: DurationChange[]): DurationChange[] {
+  const delta = (c: DurationChange) => Math.abs((c.after ?? 0) - (c.before ?? 0));
+  return changes.filter(c => delta(c) > 0).sort((a, b) => delta(b) - delta(a));
+}
+
+function remoteShare(build: LoadedBuild): number | undefined {
+  const { remoteExecutionTime, localExecutionTime } = build.metrics;
+  if (remoteExecutionTime !== undefined && remoteExecutionTime + (localExecutionTime || 0) > 0) {
+    return remoteExecutionTime / (remoteExecutionTime + (localExecutionTime || 0));
+  }
+  const spawns = build.profile?.spawns;
+  if (spawns && spawns.remote + spawns.local > 0) {
+    return spawns.remote / (spawns.remote + spawns.local);
+  }
+  return undefined;
+}
+
+function nonZero(value?: number): number | undefined {
+  return value ? value : undefined;
+}
+
+function formatValue(unit: Unit, value?: number): string {
+  if (value === undefined) return '-';
+  switch (unit) {
+    case 'seconds': return value >= 60 ? `${Math.floor(value / 60)}m ${(value % 60).toFixed(1)}s` : `${value.toFixed(2)}s`;
+    case 'ratio': return `${(value * 100).toFixed(1)}%`;
+    case 'bytes': return formatBytes(value);
+    default: return String(Math.round(value));
+  }
+}
+
+function formatChange(unit: Unit, a: number, b: number): string {
+  if (unit === 'ratio') {
+    const points = (b - a) * 100;
+    return `${points >= 0 ? '+' : ''}${points.toFixed(1)} pts`;
+  }
+  if (unit === 'count' || unit === 'score') {
+    return `${b - a >= 0 ? '+' : ''}${Math.round(b - a)}`;
+  }
+  if (a === 0) return b === 0 ? '0%' : 'new';
+  const percent = ((b - a) / a) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function formatSignedSeconds(seconds: number): string {
+  return `${seconds >= 0 ? '+' : '-'}${formatValue('seconds', Math.abs(seconds))}`;
+}
\ No newline at end of file
@@ -1,33 +1,109 @@
 import { z } from 'zod';
-import { ProjectType, type BazelConfig } from '../lib/types.js';
+import { readFileSync } from 'fs';
+import { dirname } from 'path';
+import { ProjectType, type BazelConfig, type ToolDefinition, type WorkspaceInfo } from '../lib/types.js';
 import { formatBazelrc } from '../lib/utils.js';
+import { detectWorkspace } from '../lib/workspace.js';
+import { mergeIntoBazelrc } from '../lib/bazelrc-merge.js';
+import { CREDENTIAL_HELPER_BIN } from '../lib/credentials.js';
+import { CLOUD_HOST_SUFFIX, resolveEndpoints, isCloudEndpoint, type ResolvedEndpoints } from '../lib/endpoints.js';
+import {
+  API_KEY_HEADER,
+  DEFAULT_BAZEL_MAJOR,
+  parseBazelMajor,
+  adaptFlagLines
+} from '../lib/flags.js';
+
+export const CredentialMode = z.enum(['bazelrc-user', 'credential-helper', 'env']);
+export type CredentialMode = z.infer<typeof CredentialMode>;
 
 export const GetBazelConfigSchema = z.object({
-  projectType: ProjectType,
-  nativelinkUrl: z.string().optional(),
-  features: z.array(z.string()).optional()
+  projectType: ProjectType.optional().describe('Type of project (required unless workspacePath is given)'),
+  workspacePath: z.string().optional().describe('Path to a Bazel workspace; rulesets and Bazel version are detected from MODULE.bazel, WORKSPACE and .bazelversion'),
+  bazelVersion: z.string().optional().describe('Bazel version to write flags for, e.g. 6.5.0 or 8.x (default: detected from the workspace, else 7)'),
+  nativelinkUrl: z.string().optional().describe('Nativelink server URL used for every service, e.g. grpc://nativelink.internal:50051 (defaults to cloud)'),
+  casUrl: z.string().optional().describe('Remote cache endpoint, if different from nativelinkUrl'),
+  schedulerUrl: z.string().optional().describe('Remote execution scheduler endpoint, if different from nativelinkUrl'),
+  besUrl: z.string().optional().describe('Build Event Service endpoint, if different from nativelinkUrl'),
+  instanceName: z.string().optional().describe('Value for --remote_instance_name (default: main for self-hosted clusters)'),
+  tlsCertificate: z.string().optional().describe('Path to a CA certificate for a private CA (--tls_certificate)'),
+  tlsClientCertificate: z.string().optional().describe('Path to the mTLS client certificate (--tls_client_certificate)'),
+  tlsClientKey: z.string().optional().describe('Path to the mTLS client key (--tls_client_key)'),
+  features: z.array(z.string()).optional().describe('Features to enable: remote_cache, remote_execution, metrics'),
+  credentials: CredentialMode.optional().describe('Where Bazel gets the Nativelink Cloud API key: bazelrc-user (a gitignored .bazelrc.user), credential-helper (the nativelink-credential-helper command from this package) or env (command-line flags from environment variables) (default: bazelrc-user)'),
+  existingBazelrc: z.string().optional().describe('Contents of an existing .bazelrc to merge into; NativeLink settings are added as a --config=nativelink group'),
+  existingBazelrcPath: z.string().optional().describe('Path to an existing .bazelrc to merge into (alternative to existingBazelrc)'),
+  outputFormat: z.enum(['merged', 'diff']).optional().describe('When merging, return the full merged file or a unified diff (default: merged)')
+}).refine(p => p.projectType || p.workspacePath, {
+  message: 'projectType or workspacePath is required',
+  path: ['projectType']
+}).refine(p => !p.tlsClientCertificate === !p.tlsClientKey, {
+  message: 'tlsClientCertificate and tlsClientKey must be given together',
+  path: ['tlsClientKey']
 });
 
 export type GetBazelConfigParams = z.infer<typeof GetBazelConfigSchema>;
 
+export const getBazelConfigTool: ToolDefinition<typeof GetBazelConfigSchema> = {
+  name: 'get-bazel-config',
+  description: 'Generate optimal Bazel configuration for Nativelink',
+  schema: GetBazelConfigSchema,
+  handler: params => generateBazelConfig(params)
+};
+
 export function generateBazelConfig(params: GetBazelConfigParams): string {
   const features = params.features || ['remote_cache', 'remote_execution', 'bes'];
+  const workspace = params.workspacePath ? detectWorkspace(params.workspacePath) : undefined;
+  const languages = resolveLanguages(params.projectType, workspace);
+  const projectType = languages.length === 1 ? languages[0] : (params.projectType || 'mixed');
+  const bazelVersion = params.bazelVersion || workspace?.bazelVersion;
+  const bazelMajor = parseBazelMajor(bazelVersion) ?? DEFAULT_BAZEL_MAJOR;
+  const endpoints = resolveEndpoints(params);
 
-  const lines: string[] = [
-    '# Nativelink Cloud Configuration',
-    `# Generated for ${params.projectType} project`,
+  const header: string[] = [
+    endpoints.selfHosted ? '# Nativelink Self-Hosted Configuration' : '# Nativelink Cloud Configuration',
+    `# Generated for ${projectType} project`,
     `# ${new Date().toISOString()}`,
-    '',
-    '# IMPORTANT: Get your personalized configuration from https://app.nativelink.com',
-    '# The configuration below is a template - replace with your actual values from the dashboard',
-    '',
-    '# Remote Cache Configuration'
+    ''
   ];
 
+  if (workspace) {
+    header.push(
+      `# Workspace: ${workspace.path} (${workspace.bzlmod ? 'Bzlmod' : 'WORKSPACE'})`,
+      `# Bazel version: ${workspace.bazelVersion || 'unknown (no .bazelversion)'}`,
+      `# Detected rulesets: ${workspace.rulesets.map(r => r.name).join(', ') || 'none'}`,
+      ''
+    );
+  }
+
+  header.push(
+    `# Flags written for Bazel ${bazelMajor}${bazelVersion ? '' : ' (pass bazelVersion to target another release)'}`,
+    ''
+  );
+
+  if (!endpoints.selfHosted) {
+    header.push(
+      '# IMPORTANT: Get your personalized configuration from https://app.nativelink.com',
+      '# The configuration below is a template - replace with your actual values from the dashboard',
+      ''
+    );
+  }
+
+  const lines: string[] = [];
+
+  // Bazel 8 turns WORKSPACE off by default; 7.0 has no --enable_workspace, and WORKSPACE is on until 8.
+  if (workspace && !workspace.bzlmod && bazelMajor >= 8) {
+    lines.push(
+      '# External Dependencies',
+      'common --enable_workspace',
+      ''
+    );
+  }
+
   if (features.includes('remote_cache')) {
     lines.push(
-      'build --remote_cache=grpcs://cas-tracemachina-shared.build-faster.nativelink.net',
-      'build --remote_header=x-nativelink-api-key=YOUR_API_KEY_FROM_APP_NATIVELINK_COM',
+      '# Remote Cache Configuration',
+      `build --remote_cache=${endpoints.cas}`,
       ''
     );
   }
@@ -35,9 +111,8 @@ export function generateBazelConfig(params: GetBazelConfigParams): string {
   if (features.includes('bes')) {
     lines.push(
       '# Build Event Service (BES) Configuration',
-      'build --bes_backend=grpcs://bes-tracemachina-shared.build-faster.nativelink.net',
-      'build --bes_header=x-nativelink-api-key=YOUR_BES_API_KEY_FROM_APP_NATIVELINK_COM',
-      'build --bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build',
+      `build --bes_backend=${endpoints.bes}`,
+      ...(endpoints.resultsUrl ? [`build --bes_results_url=${endpoints.resultsUrl}`] : []),
       ''
     );
   }
@@ -45,7 +120,8 @@ export function generateBazelConfig(params: GetBazelConfigParams): string {
   if (features.includes('remote_execution')) {
     lines.push(
       '# Remote Execution Configuration',
-      'build --remote_executor=grpcs://scheduler-tracemachina-shared.build-faster.nativelink.net:443',
+      '# Platforms and toolchains for the workers: see generate-remote-platform',
+      `build --remote_executor=${endpoints.scheduler}`,
       'build --remote_timeout=600',
       'build --jobs=200',
       'build --remote_download_outputs=minimal',
@@ -53,34 +129,53 @@ export function generateBazelConfig(params: GetBazelConfigParams): string {
     );
   }
 
+  lines.push(...getConnectionConfig(endpoints, features));
+
+  const credentials = params.credentials || 'bazelrc-user';
+  const keys = getRequiredKeys(endpoints, features);
+  const credentialConfig = getCredentialConfig(credentials, keys);
+  if (credentialConfig.comments.length + credentialConfig.flags.length > 0) {
+    lines.push('# API Keys', ...credentialConfig.comments, ...credentialConfig.flags, '');
+  }
+
   lines.push(
     '# Performance Optimizations',
-    'build --experimental_remote_cache_compression',
-    'build --experimental_remote_cache_async',
+    'build --remote_cache_compression',
+    'build --remote_cache_async',
     'build --remote_max_connections=200',
     ''
   );
 
-  const projectSpecific = getProjectSpecificConfig(params.projectType);
-  if (projectSpecific.length > 0) {
-    lines.push(
-      `# ${params.projectType} Specific Configuration`,
-      ...projectSpecific,
-      ''
-    );
+  if (workspace && languages.length > 0) {
+    for (const language of languages) {
+      lines.push(
+        `# ${language} Specific Configuration`,
+        ...getProjectSpecificConfig(language, workspace),
+        ''
+      );
+    }
+  } else {
+    const projectSpecific = getProjectSpecificConfig(projectType);
+    if (projectSpecific.length > 0) {
+      lines.push(
+        `# ${projectType} Specific Configuration`,
+        ...projectSpecific,
+        ''
+      );
+    }
   }
 
   lines.push(
     '# Build Reproducibility',
     'build --incompatible_strict_action_env',
-    'build --action_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1',
+    'build --repo_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1',
     ''
   );
 
   if (features.includes('metrics')) {
     lines.push(
       '# Metrics and Monitoring',
-      'build --experimental_remote_grpc_log=grpc.log',
+      'build --remote_grpc_log=grpc.log',
       'build --generate_json_trace_profile',
       'build --experimental_profile_include_primary_output',
       ''
@@ -94,10 +189,128 @@ export function generateBazelConfig(params: GetBazelConfigParams): string {
     ''
   );
 
-  return formatBazelrc(lines);
+  // Last, so that values in .bazelrc.user override everything above.
+  if (credentials === 'bazelrc-user' && keys.length > 0) {
+    lines.push('try-import %workspace%/.bazelrc.user', '');
+  }
+
+  const existingBazelrc = params.existingBazelrcPath
+    ? readFileSync(params.existingBazelrcPath, 'utf8')
+    : params.existingBazelrc;
+
+  if (existingBazelrc !== undefined) {
+    const merged = mergeIntoBazelrc(existingBazelrc, adaptFlagLines(lines, bazelMajor), {
+      file: params.existingBazelrcPath || '.bazelrc',
+      workspacePath: params.workspacePath || (params.existingBazelrcPath && dirname(params.existingBazelrcPath)),
+      header: [
+        `# Generated for ${projectType} project, flags written for Bazel ${bazelMajor}. Re-running replaces this block.`,
+        // Comment-only sections are dropped when merging, so key instructions without a flag go up here.
+        ...(credentialConfig.flags.length === 0 ? credentialConfig.comments : [])
+      ]
+    });
+
+    if (params.outputFormat === 'diff') {
+      return (merged.diff || `No changes: ${params.existingBazelrcPath || '.bazelrc'} already contains this configuration.`);
+    }
+    return merged.content;
+  }
+
+  return formatBazelrc(adaptFlagLines([...header, ...lines], bazelMajor));
+}
+
+type ApiKey = { flag: 'remote_header' | 'bes_header'; env: string; description: string };
+
+// Only Nativelink Cloud endpoints take an API key; self-hosted clusters authenticate with mTLS.
+function getRequiredKeys(endpoints: ResolvedEndpoints, features: string[]): ApiKey[] {
+  const keys: ApiKey[] = [];
+  if ((features.includes('remote_cache') && isCloudEndpoint(endpoints.cas)) ||
+      (features.includes('remote_execution') && isCloudEndpoint(endpoints.scheduler))) {
+    keys.push({ flag: 'remote_header', env: 'NATIVELINK_API_KEY', description: 'API key' });
+  }
+  if (features.includes('bes') && isCloudEndpoint(endpoints.bes)) {
+    keys.push({ flag: 'bes_header', env: 'NATIVELINK_BES_API_KEY', description: 'BES API key' });
+  }
+  return keys;
 }
 
-function getProjectSpecificConfig(projectType: string): string[] {
+function getCredentialConfig(mode: CredentialMode, keys: ApiKey[]): { comments: string[]; flags: string[] } {
+  if (keys.length === 0) return { comments: [], flags: [] };
+
+  switch (mode) {
+    case 'bazelrc-user':
+      return {
+        comments: [
+          '# Never commit API keys. Put these lines in .bazelrc.user, add it to .gitignore,',
+          '# and fill in the keys from https://app.nativelink.com:',
+          ...keys.map(key => `#   build --${key.flag}=${API_KEY_HEADER}=<${key.description}>`)
+        ],
+        flags: []
+      };
+    case 'credential-helper':
+      return {
+        comments: [
+          `# ${CREDENTIAL_HELPER_BIN} comes with @nativelink/mcp-server (npm install -g @nativelink/mcp-server).`,
+          `# It reads ${keys.map(key => key.env).join(' or ')}, ~/.config/nativelink-mcp/credentials.json, or keys saved with \`${CREDENTIAL_HELPER_BIN} store\`.`
+        ],
+        flags: [`build --credential_helper=*${CLOUD_HOST_SUFFIX}=${CREDENTIAL_HELPER_BIN}`]
+      };
+    case 'env':
+      return {
+        comments: [
+          '# Bazel does not expand environment variables in .bazelrc, so pass the API keys on the command line:',
+          `#   bazel build ${keys.map(key => `--${key.flag}=${API_KEY_HEADER}="$${key.env}"`).join(' ')} //...`
+        ],
+        flags: []
+      };
+  }
+}
+
+// Instance name and TLS settings apply to every remote endpoint, so they get their own section.
+function getConnectionConfig(endpoints: ResolvedEndpoints, features: string[]): string[] {
+  const used = [
+    features.includes('remote_cache') && endpoints.cas,
+    features.includes('remote_execution') && endpoints.scheduler,
+    features.includes('bes') && endpoints.bes
+  ].filter((url): url is string => Boolean(url));
+  const { certificate, clientCertificate, clientKey } = endpoints.tls;
+
+  const lines: string[] = [];
+  if (endpoints.instanceName && (features.includes('remote_cache') || features.includes('remote_execution'))) {
+    lines.push(`build --remote_instance_name=${endpoints.instanceName}`);
+  }
+  if (used.length > 0 && certificate) {
+    lines.push(`build --tls_certificate=${certificate}`);
+  }
+  if (used.length > 0 && clientCertificate && clientKey) {
+    lines.push(
+      `build --tls_client_certificate=${clientCertificate}`,
+      `build --tls_client_key=${clientKey}`
+    );
+  }
+
+  const plaintext = [...new Set(used.filter(url => url.startsWith('grpc://')))];
+  if ((certificate || clientCertificate) && plaintext.length > 0) {
+    lines.push(`# Note: TLS settings are ignored for grpc:// endpoints (${plaintext.join(', ')}); use grpcs://`);
+  }
+
+  return lines.length > 0 ? ['# Connection Settings', ...lines, ''] : [];
+}
+
+// Detected languages come first; an explicit projectType adds to them rather than replacing them.
+export function resolveLanguages(projectType: ProjectType | undefined, workspace?: WorkspaceInfo): ProjectType[] {
+  const languages: ProjectType[] = [];
+
+  for (const language of workspace?.languages || []) {
+    if (language !== 'js') languages.push(language);
+  }
+  if (projectType && projectType !== 'mixed' && !languages.includes(projectType)) {
+    languages.push(projectType);
+  }
+
+  return languages;
+}
+
+function getProjectSpecificConfig(projectType: string, workspace?: WorkspaceInfo): string[] {
   const configs: Record<string, string[]> = {
     rust: [
       'build --@rules_rust//rust/settings:pipelined_compilation=True',
@@ -128,5 +341,11 @@ function getProjectSpecificConfig(projectType: string): string[] {
     ]
   };
 
-  return configs[projectType] || [];
+  const flags = configs[projectType] || [];
+
+  // Bzlmod users reach rulesets by their module name (e.g. @rules_go) unless repo_name says otherwise.
+  const goRepo = workspace?.rulesets.find(r => r.language === 'go')?.repoName;
+  return goRepo
+    ? flags.map(flag => flag.replace('@io_bazel_rules_go//', `@${goRepo}//`))
+    : flags;
 }
\ No newline at end of file
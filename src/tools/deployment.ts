@@ -1,45 +1,123 @@
 import { z } from 'zod';
-import { Platform, Scale } from '../lib/types.js';
+import { Platform, Scale, StorageBackend, type ToolDefinition } from '../lib/types.js';
+import {
+  generateServerConfig,
+  getDefaultStorageBackend,
+  getPersistentStorageGiB,
+  WORKER_API_PORT
+} from '../lib/server-config.js';
+import { getAWSInstanceType, getAzureVMSize, getGCPMachineType } from '../lib/instances.js';
 
 export const GenerateDeploymentConfigSchema = z.object({
-  platform: Platform,
-  scale: Scale,
-  features: z.array(z.string()).optional()
+  platform: Platform.describe('Deployment platform'),
+  scale: Scale.describe('Deployment scale'),
+  features: z.array(z.string()).optional().describe('Features to enable: monitoring, autoscaling, high_availability'),
+  storageBackend: StorageBackend.optional().describe('Persistent store for config.json5 (default: s3 on aws, gcs on gcp, filesystem elsewhere)'),
+  bucket: z.string().optional().describe('Bucket name for s3 or gcs storage'),
+  region: z.string().optional().describe('Region for s3 storage'),
+  includeServerConfig: z.boolean().default(true).describe('Also generate the NativeLink config.json5 (default: true)')
 });
 
 export type GenerateDeploymentConfigParams = z.infer<typeof GenerateDeploymentConfigSchema>;
 
+export const generateDeploymentConfigTool: ToolDefinition<typeof GenerateDeploymentConfigSchema> = {
+  name: 'generate-deployment-config',
+  description: 'Generate deployment configuration for Nativelink',
+  schema: GenerateDeploymentConfigSchema,
+  handler: params => generateDeploymentConfig(params)
+};
+
+// Kubernetes Service the worker pods use to reach the scheduler and CAS.
+const INTERNAL_SERVICE = 'nativelink-internal';
+
 export function generateDeploymentConfig(params: GenerateDeploymentConfigParams): string {
   const features = params.features || [];
+  const backend = params.storageBackend || getDefaultStorageBackend(params.platform);
+  const manifest = generatePlatformConfig(params.platform, params.scale, features, backend);
+
+  if (params.includeServerConfig === false) {
+    return manifest;
+  }
+
+  const serverOptions = {
+    platform: params.platform,
+    scale: params.scale,
+    features,
+    storageBackend: backend,
+    bucket: params.bucket,
+    region: params.region
+  };
+
+  if (params.platform === 'kubernetes') {
+    const schedulerConfig = generateServerConfig({ ...serverOptions, role: 'scheduler' });
+    const workerConfig = generateServerConfig({ ...serverOptions, role: 'worker', schedulerHost: INTERNAL_SERVICE });
+    return [
+      manifest,
+      generateConfigMap('nativelink-config', schedulerConfig),
+      generateConfigMap('nativelink-worker-config', workerConfig)
+    ].join('\n');
+  }
+
+  const serverConfig = generateServerConfig(serverOptions);
+
+  return `${manifest}
+
+# ---------------------------------------------------------------------------
+# config.json5 - mount at /config/config.json5 (referenced by NATIVELINK_CONFIG)
+# ---------------------------------------------------------------------------
+${serverConfig}`;
+}
 
-  switch (params.platform) {
+function generatePlatformConfig(platform: Platform, scale: Scale, features: string[], backend: StorageBackend): string {
+  switch (platform) {
     case 'kubernetes':
-      return generateKubernetesConfig(params.scale, features);
+      return generateKubernetesConfig(scale, features, backend);
     case 'docker':
-      return generateDockerConfig(params.scale, features);
+      return generateDockerConfig(scale, features);
     case 'aws':
-      return generateAWSConfig(params.scale, features);
+      return generateAWSConfig(scale, features);
     case 'gcp':
-      return generateGCPConfig(params.scale, features);
+      return generateGCPConfig(scale, features);
     case 'azure':
-      return generateAzureConfig(params.scale, features);
+      return generateAzureConfig(scale, features);
     default:
-      return generateDockerConfig(params.scale, features);
+      return generateDockerConfig(scale, features);
   }
 }
 
-function generateKubernetesConfig(scale: Scale, features: string[]): string {
-  const replicas = getReplicaCount(scale);
+function generateConfigMap(name: string, serverConfig: string): string {
+  const indented = serverConfig.split('\n').map(line => `    ${line}`).join('\n');
+
+  return `---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: ${name}
+  namespace: build-cache
+data:
+  config.json5: |
+${indented}`;
+}
+
+// One scheduler pod owns the stores and every queued operation, so it is never replicated;
+// scale and autoscaling apply to the worker Deployment, which reaches it through
+// the internal Service.
+function generateKubernetesConfig(scale: Scale, features: string[], backend: StorageBackend): string {
+  const workers = getReplicaCount(scale);
   const resources = getResourceLimits(scale);
+  const persistent = backend === 'filesystem';
 
   return `# Nativelink Kubernetes Deployment
+# The scheduler pod serves CAS, AC and execution; ${workers} worker pod(s) run the actions.
 apiVersion: apps/v1
 kind: Deployment
 metadata:
   name: nativelink
   namespace: build-cache
 spec:
-  replicas: ${replicas}
+  replicas: 1
+  strategy:
+    type: Recreate
   selector:
     matchLabels:
       app: nativelink
@@ -56,6 +134,8 @@ spec:
           name: grpc
         - containerPort: 50052
           name: cas
+        - containerPort: ${WORKER_API_PORT}
+          name: worker-api
         ${features.includes('monitoring') ? `- containerPort: 9090
           name: metrics` : ''}
         resources:
@@ -71,6 +151,8 @@ spec:
         volumeMounts:
         - name: config
           mountPath: /config
+        ${persistent ? `- name: data
+          mountPath: /data` : ''}
         ${features.includes('high_availability') ? `livenessProbe:
           grpc:
             port: 50051
@@ -85,7 +167,66 @@ spec:
       - name: config
         configMap:
           name: nativelink-config
+      ${persistent ? `- name: data
+        persistentVolumeClaim:
+          claimName: nativelink-data` : ''}
 ---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: nativelink-worker
+  namespace: build-cache
+spec:
+  replicas: ${workers}
+  selector:
+    matchLabels:
+      app: nativelink-worker
+  template:
+    metadata:
+      labels:
+        app: nativelink-worker
+    spec:
+      containers:
+      - name: nativelink-worker
+        image: ghcr.io/tracemachina/nativelink:latest
+        ${features.includes('monitoring') ? `ports:
+        - containerPort: 9090
+          name: metrics` : ''}
+        resources:
+          limits:
+            memory: "${resources.memory}"
+            cpu: "${resources.cpu}"
+          requests:
+            memory: "${resources.memory}"
+            cpu: "${resources.cpu}"
+        env:
+        - name: NATIVELINK_CONFIG
+          value: /config/config.json5
+        volumeMounts:
+        - name: config
+          mountPath: /config
+        - name: data
+          mountPath: /data
+      volumes:
+      - name: config
+        configMap:
+          name: nativelink-worker-config
+      # Work directories and the local CAS cache; losing them only costs cache hits.
+      - name: data
+        emptyDir: {}
+${persistent ? `---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: nativelink-data
+  namespace: build-cache
+spec:
+  accessModes:
+  - ReadWriteOnce
+  resources:
+    requests:
+      storage: ${getPersistentStorageGiB(scale)}Gi
+` : ''}---
 apiVersion: v1
 kind: Service
 metadata:
@@ -105,19 +246,37 @@ spec:
     targetPort: 9090
     name: metrics` : ''}
   type: LoadBalancer
+---
+# Workers reach the scheduler and CAS here; the worker API is not exposed outside the cluster.
+apiVersion: v1
+kind: Service
+metadata:
+  name: ${INTERNAL_SERVICE}
+  namespace: build-cache
+spec:
+  selector:
+    app: nativelink
+  ports:
+  - port: 50052
+    targetPort: 50052
+    name: cas
+  - port: ${WORKER_API_PORT}
+    targetPort: ${WORKER_API_PORT}
+    name: worker-api
+  type: ClusterIP
 ${features.includes('autoscaling') ? `---
 apiVersion: autoscaling/v2
 kind: HorizontalPodAutoscaler
 metadata:
-  name: nativelink-hpa
+  name: nativelink-worker-hpa
   namespace: build-cache
 spec:
   scaleTargetRef:
     apiVersion: apps/v1
     kind: Deployment
-    name: nativelink
-  minReplicas: ${replicas}
-  maxReplicas: ${replicas * 3}
+    name: nativelink-worker
+  minReplicas: ${workers}
+  maxReplicas: ${workers * 3}
   metrics:
   - type: Resource
     resource:
@@ -475,31 +634,4 @@ function getMemoryMB(scale: Scale): string {
     case 'large': return '16384';
     case 'enterprise': return '32768';
   }
-}
-
-function getAWSInstanceType(scale: Scale): string {
-  switch (scale) {
-    case 'small': return 't3.large';
-    case 'medium': return 't3.xlarge';
-    case 'large': return 'm5.2xlarge';
-    case 'enterprise': return 'm5.4xlarge';
-  }
-}
-
-function getGCPMachineType(scale: Scale): string {
-  switch (scale) {
-    case 'small': return 'n2-standard-2';
-    case 'medium': return 'n2-standard-4';
-    case 'large': return 'n2-standard-8';
-    case 'enterprise': return 'n2-standard-16';
-  }
-}
-
-function getAzureVMSize(scale: Scale): string {
-  switch (scale) {
-    case 'small': return 'Standard_D2s_v3';
-    case 'medium': return 'Standard_D4s_v3';
-    case 'large': return 'Standard_D8s_v3';
-    case 'enterprise': return 'Standard_D16s_v3';
-  }
 }
\ No newline at end of file
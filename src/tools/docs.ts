@@ -1,23 +1,48 @@
 import { z } from 'zod';
-import { DocsTopic } from '../lib/types.js';
+import { DocsTopic, type ToolDefinition } from '../lib/types.js';
 import { truncateResponse } from '../lib/utils.js';
 import { NativelinkAPI } from '../lib/api.js';
+import type { DocsResult } from '../lib/docs-cache.js';
 
 export const GetNativelinkDocsSchema = z.object({
-  topic: DocsTopic,
-  context: z.string().optional(),
-  maxTokens: z.number().min(1000).default(5000).optional()
+  topic: DocsTopic.describe('Documentation topic'),
+  context: z.string().optional().describe('Additional context or specific question'),
+  version: z.string().optional().describe('Nativelink version the docs should match (default: latest)'),
+  maxTokens: z.number().min(1000).default(5000).optional().describe('Maximum tokens to return (min 1000, default 5000)')
 });
 
 export type GetNativelinkDocsParams = z.infer<typeof GetNativelinkDocsSchema>;
 
+export const getNativelinkDocsTool: ToolDefinition<typeof GetNativelinkDocsSchema> = {
+  name: 'get-nativelink-docs',
+  description: 'Fetch Nativelink documentation and best practices',
+  schema: GetNativelinkDocsSchema,
+  handler: (params, { api }) => getNativelinkDocs(params, api)
+};
+
 export async function getNativelinkDocs(
   params: GetNativelinkDocsParams,
   api: NativelinkAPI
 ): Promise<string> {
   const maxTokens = params.maxTokens || 5000;
 
-  const docs = await api.fetchDocumentation(params.topic, params.context);
+  const docs = await api.fetchDocumentation(params.topic, params.context, params.version);
+
+  return `${truncateResponse(docs.content, maxTokens)}\n\n---\n_${describeSource(docs)}_`;
+}
 
-  return truncateResponse(docs, maxTokens);
+function describeSource(docs: DocsResult): string {
+  const updated = docs.lastUpdated ? `, last updated ${docs.lastUpdated}` : '';
+  switch (docs.source) {
+    case 'live':
+      return `Source: live from the Nativelink docs API${updated}`;
+    case 'cached':
+      return docs.stale
+        ? `Source: cached copy from ${docs.fetchedAt}${updated}; past its TTL and not yet revalidated`
+        : `Source: cached copy from ${docs.fetchedAt}${updated}`;
+    case 'bundled':
+      return docs.fallback
+        ? 'Source: offline docs bundled with this server; there is no bundled guide for this topic, so the closest match or the setup guide is shown'
+        : 'Source: offline docs bundled with this server';
+  }
 }
\ No newline at end of file
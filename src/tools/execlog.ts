@@ -0,0 +1,370 @@
+import { z } from 'zod';
+import { readExecutionLog, getSpawnKey, isCacheHit, type SpawnExec } from '../lib/execlog.js';
+import type { ToolDefinition } from '../lib/types.js';
+
+export const AnalyzeCacheMissesSchema = z.object({
+  baselineLog: z.string().optional().describe('Baseline --execution_log_json_file content (e.g. the build that populated the cache); compact logs are not supported'),
+  baselineLogPath: z.string().optional().describe('Path to the baseline execution log, used instead of baselineLog'),
+  candidateLog: z.string().optional().describe('Execution log content of the build that missed the cache'),
+  candidateLogPath: z.string().optional().describe('Path to the candidate execution log, used instead of candidateLog'),
+  onlyMisses: z.boolean().default(true).describe('Only analyze spawns that missed the cache (default: true)'),
+  maxActions: z.number().min(1).max(200).default(20).describe('Maximum number of actions to detail (1-200, default: 20)')
+}).refine(p => p.baselineLog || p.baselineLogPath, {
+  message: 'baselineLog or baselineLogPath is required',
+  path: ['baselineLog']
+}).refine(p => p.candidateLog || p.candidateLogPath, {
+  message: 'candidateLog or candidateLogPath is required',
+  path: ['candidateLog']
+});
+
+export type AnalyzeCacheMissesParams = z.infer<typeof AnalyzeCacheMissesSchema>;
+
+export const analyzeCacheMissesTool: ToolDefinition<typeof AnalyzeCacheMissesSchema> = {
+  name: 'analyze-cache-misses',
+  description: 'Compare two Bazel JSON execution logs (--execution_log_json_file) and explain which inputs, env vars, platform properties or args caused cache misses. Compact logs (--execution_log_compact_file) are not supported; convert them to JSON first',
+  schema: AnalyzeCacheMissesSchema,
+  handler: params => analyzeCacheMisses(params)
+};
+
+type DifferenceCategory = 'input' | 'env' | 'platform' | 'args';
+
+interface Difference {
+  category: DifferenceCategory;
+  key: string;
+  detail: string;
+}
+
+interface SpawnDiff {
+  key: string;
+  spawn: SpawnExec;
+  differences: Difference[];
+}
+
+interface DifferenceSource {
+  category: DifferenceCategory;
+  key: string;
+  actions: number;
+  generated: boolean;
+}
+
+export function analyzeCacheMisses(params: AnalyzeCacheMissesParams): string {
+  const baseline = readExecutionLog(params.baselineLog, params.baselineLogPath);
+  const candidate = readExecutionLog(params.candidateLog, params.candidateLogPath);
+  const onlyMisses = params.onlyMisses ?? true;
+  const maxActions = params.maxActions || 20;
+
+  const baselineByKey = new Map(baseline.map(spawn => [getSpawnKey(spawn), spawn]));
+  const generatedPaths = new Set(
+    candidate.flatMap(spawn => spawn.listedOutputs || [])
+  );
+
+  const diffs: SpawnDiff[] = [];
+  // Hits whose inputs still differ from the baseline; they are listed but not ranked.
+  const hitDiffs: SpawnDiff[] = [];
+  let unmatched = 0;
+  let misses = 0;
+
+  for (const spawn of candidate) {
+    if (isCacheHit(spawn)) continue;
+    misses++;
+
+    const key = getSpawnKey(spawn);
+    const previous = baselineByKey.get(key);
+    if (!previous) {
+      unmatched++;
+      continue;
+    }
+
+    const differences = diffSpawns(previous, spawn);
+    if (differences.length > 0) {
+      diffs.push({ key, spawn, differences });
+    }
+  }
+
+  if (!onlyMisses) {
+    for (const spawn of candidate.filter(isCacheHit)) {
+      const key = getSpawnKey(spawn);
+      const previous = baselineByKey.get(key);
+      const differences = previous ? diffSpawns(previous, spawn) : [];
+      if (differences.length > 0) {
+        hitDiffs.push({ key, spawn, differences });
+      }
+    }
+  }
+
+  const sources = rankSources(diffs, generatedPaths);
+
+  const lines: string[] = [
+    '# Cache Miss Analysis',
+    '',
+    `- Baseline spawns: ${baseline.length}`,
+    `- Candidate spawns: ${candidate.length}`,
+    `- Candidate cache misses: ${misses}`,
+    `- Misses with a matching baseline spawn and different inputs: ${diffs.length}`,
+    `- Misses with no matching baseline spawn (new actions): ${unmatched}`,
+    ...(onlyMisses ? [] : [`- Cache hits with different inputs: ${hitDiffs.length}`]),
+    ''
+  ];
+
+  if (diffs.length === 0) {
+    lines.push(
+      'No differing inputs were found for the spawns that missed the cache.',
+      'If both logs came from the same commit, the misses are likely caused by cache eviction or `no-remote-cache` tags rather than non-hermeticity.'
+    );
+    if (hitDiffs.length > 0) {
+      lines.push('', ...formatSpawnDiffs('Cache Hits With Different Inputs', hitDiffs, maxActions));
+    }
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '## Ranked Sources of Non-Hermeticity',
+    '',
+    'Root causes are listed first. Generated inputs usually differ only because an upstream action changed.',
+    '',
+    '| Rank | Kind | Key | Actions affected |',
+    '|------|------|-----|------------------|'
+  );
+  sources.slice(0, 20).forEach((source, index) => {
+    const kind = source.generated ? `${source.category} (generated)` : source.category;
+    lines.push(`| ${index + 1} | ${kind} | \`${source.key}\` | ${source.actions} |`);
+  });
+  lines.push('');
+
+  lines.push(...formatSpawnDiffs('Actions That Missed the Cache', diffs, maxActions));
+  if (hitDiffs.length > 0) {
+    lines.push(...formatSpawnDiffs('Cache Hits With Different Inputs', hitDiffs, maxActions));
+  }
+
+  lines.push(...getFixSuggestions(sources));
+
+  return lines.join('\n');
+}
+
+function formatSpawnDiffs(heading: string, diffs: SpawnDiff[], maxActions: number): string[] {
+  const lines: string[] = [`## ${heading}`, ''];
+  for (const diff of diffs.slice(0, maxActions)) {
+    const label = diff.spawn.targetLabel || '<unknown target>';
+    lines.push(`### ${diff.spawn.mnemonic || 'Action'} ${label}`);
+    lines.push(`Output: \`${(diff.spawn.listedOutputs || [])[0] || 'n/a'}\``, '');
+    for (const difference of diff.differences.slice(0, 15)) {
+      lines.push(`- **${difference.category}** ${difference.detail}`);
+    }
+    if (diff.differences.length > 15) {
+      lines.push(`- ...and ${diff.differences.length - 15} more differences`);
+    }
+    lines.push('');
+  }
+  if (diffs.length > maxActions) {
+    lines.push(`_${diffs.length - maxActions} more actions omitted (raise maxActions to see them)._`, '');
+  }
+  return lines;
+}
+
+function diffSpawns(before: SpawnExec, after: SpawnExec): Difference[] {
+  return [
+    ...diffArgs(before.commandArgs || [], after.commandArgs || []),
+    ...diffPairs('env', before.environmentVariables || [], after.environmentVariables || []),
+    ...diffPairs('platform', before.platform?.properties || [], after.platform?.properties || []),
+    ...diffInputs(before.inputs || [], after.inputs || [])
+  ];
+}
+
+// Above this many table cells (4 MB), the changed middle of two command lines is
+// compared as multisets instead of aligned.
+const MAX_LCS_CELLS = 1_000_000;
+
+// Aligns the command lines on their longest common subsequence, so an inserted flag is
+// one difference instead of shifting every argument after it. As in lib/diff.ts, the
+// common prefix and suffix are matched directly and only the middle goes through the table.
+function diffArgs(before: string[], after: string[]): Difference[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const midBefore = before.slice(start, endBefore);
+  const midAfter = after.slice(start, endAfter);
+  const width = midAfter.length + 1;
+  if ((midBefore.length + 1) * width > MAX_LCS_CELLS) {
+    return diffArgSets(midBefore, midAfter);
+  }
+
+  const common = new Uint32Array((midBefore.length + 1) * width);
+  for (let i = midBefore.length - 1; i >= 0; i--) {
+    for (let j = midAfter.length - 1; j >= 0; j--) {
+      common[i * width + j] = midBefore[i] === midAfter[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const differences: Difference[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  // Removals and additions between two common arguments are paired up as changes.
+  const flush = () => {
+    differences.push(...pairArgs(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < midBefore.length || j < midAfter.length) {
+    if (i < midBefore.length && j < midAfter.length && midBefore[i] === midAfter[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j < midAfter.length && (i === midBefore.length || common[i * width + j + 1] >= common[(i + 1) * width + j])) {
+      added.push(midAfter[j++]);
+    } else {
+      removed.push(midBefore[i++]);
+    }
+  }
+  flush();
+
+  return differences;
+}
+
+// Arguments that occur more often on one side; order is ignored.
+function diffArgSets(before: string[], after: string[]): Difference[] {
+  const counts = new Map<string, number>();
+  for (const arg of before) counts.set(arg, (counts.get(arg) || 0) + 1);
+
+  const added: string[] = [];
+  for (const arg of after) {
+    const count = counts.get(arg) || 0;
+    if (count > 0) counts.set(arg, count - 1);
+    else added.push(arg);
+  }
+  const removed = before.filter(arg => {
+    const count = counts.get(arg) || 0;
+    if (count === 0) return false;
+    counts.set(arg, count - 1);
+    return true;
+  });
+
+  return pairArgs(removed, added);
+}
+
+function pairArgs(removed: string[], added: string[]): Difference[] {
+  return Array.from({ length: Math.max(removed.length, added.length) }, (_, k) => {
+    const [oldArg, newArg] = [removed[k], added[k]];
+    return {
+      category: 'args' as const,
+      key: normalizeArg(newArg ?? oldArg),
+      detail: oldArg === undefined ? `\`${newArg}\` added`
+        : newArg === undefined ? `\`${oldArg}\` removed`
+        : `\`${oldArg}\` → \`${newArg}\``
+    };
+  });
+}
+
+function diffPairs(
+  category: DifferenceCategory,
+  before: { name: string; value: string }[],
+  after: { name: string; value: string }[]
+): Difference[] {
+  const beforeMap = new Map(before.map(p => [p.name, p.value]));
+  const afterMap = new Map(after.map(p => [p.name, p.value]));
+  const differences: Difference[] = [];
+
+  for (const name of new Set([...beforeMap.keys(), ...afterMap.keys()])) {
+    const oldValue = beforeMap.get(name);
+    const newValue = afterMap.get(name);
+    if (oldValue === newValue) continue;
+    differences.push({
+      category,
+      key: name,
+      detail: `\`${name}\`: \`${oldValue ?? '<unset>'}\` → \`${newValue ?? '<unset>'}\``
+    });
+  }
+
+  return differences;
+}
+
+function diffInputs(before: NonNullable<SpawnExec['inputs']>, after: NonNullable<SpawnExec['inputs']>): Difference[] {
+  const beforeMap = new Map(before.map(i => [i.path, i.digest?.hash]));
+  const afterMap = new Map(after.map(i => [i.path, i.digest?.hash]));
+  const differences: Difference[] = [];
+
+  for (const path of new Set([...beforeMap.keys(), ...afterMap.keys()])) {
+    const oldHash = beforeMap.get(path);
+    const newHash = afterMap.get(path);
+    if (beforeMap.has(path) && afterMap.has(path) && oldHash === newHash) continue;
+
+    let detail: string;
+    if (!beforeMap.has(path)) detail = `\`${path}\` added`;
+    else if (!afterMap.has(path)) detail = `\`${path}\` removed`;
+    else detail = `\`${path}\` digest ${shortHash(oldHash)} → ${shortHash(newHash)}`;
+
+    differences.push({ category: 'input', key: path, detail });
+  }
+
+  return differences;
+}
+
+function rankSources(diffs: SpawnDiff[], generatedPaths: Set<string>): DifferenceSource[] {
+  const sources = new Map<string, DifferenceSource>();
+
+  for (const diff of diffs) {
+    const seen = new Set<string>();
+    for (const difference of diff.differences) {
+      const id = `${difference.category}:${difference.key}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const source = sources.get(id) || {
+        category: difference.category,
+        key: difference.key,
+        actions: 0,
+        generated: difference.category === 'input' && generatedPaths.has(difference.key)
+      };
+      source.actions++;
+      sources.set(id, source);
+    }
+  }
+
+  return [...sources.values()].sort((a, b) =>
+    Number(a.generated) - Number(b.generated) || b.actions - a.actions
+  );
+}
+
+function getFixSuggestions(sources: DifferenceSource[]): string[] {
+  const roots = sources.filter(s => !s.generated);
+  const suggestions: string[] = [];
+
+  if (roots.some(s => s.category === 'env')) {
+    suggestions.push('- Environment variables differ: add `build --incompatible_strict_action_env` and pin any required `--action_env=NAME=value`.');
+  }
+  if (roots.some(s => s.category === 'platform')) {
+    suggestions.push('- Platform properties differ: make sure both builds use the same `--extra_execution_platforms` and `exec_properties`.');
+  }
+  if (roots.some(s => s.category === 'input' && /local_config_|external\/.*toolchain/.test(s.key))) {
+    suggestions.push('- Auto-configured toolchain files differ: use a hermetic toolchain or set `BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1`.');
+  }
+  if (roots.some(s => s.category === 'input' && /stable-status|volatile-status|build-info/.test(s.key))) {
+    suggestions.push('- Stamping inputs differ: disable `--stamp` for cacheable builds or limit stamping to release targets.');
+  }
+  if (roots.some(s => s.category === 'args' && /(\/home\/|\/Users\/|\/tmp\/|\d{10})/.test(s.key))) {
+    suggestions.push('- Command lines contain absolute paths or timestamps: check `--copt`/`--linkopt` values and compiler flags such as `-fdebug-prefix-map`.');
+  }
+
+  if (suggestions.length === 0) return [];
+  return ['## Suggested Fixes', '', ...suggestions];
+}
+
+function normalizeArg(arg: string): string {
+  const flag = arg.match(/^(-{1,2}[^=]+)=/);
+  return flag ? flag[1] : arg;
+}
+
+function shortHash(hash?: string): string {
+  return hash ? hash.slice(0, 12) : '<none>';
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import type { ToolDefinition } from '../lib/types.js';
+import { getBazelConfigTool } from './config.js';
+import { getNativelinkDocsTool } from './docs.js';
+import { analyzeBuildPerformanceTool } from './performance.js';
+import { generateDeploymentConfigTool } from './deployment.js';
+import { setupWatchAndBuildTool } from './watch.js';
+import { analyzeCacheMissesTool } from './execlog.js';
+import { analyzeBuildEventsTool } from './bep.js';
+import { validateBazelrcTool } from './validate.js';
+import { searchNativelinkDocsTool } from './search.js';
+import { analyzeBuildTrendsTool } from './trends.js';
+import { compareBuildsTool } from './compare.js';
+import { generateRemotePlatformTool } from './platform.js';
+import { generateCiConfigTool } from './ci.js';
+
+/**
+ * Every tool the server exposes, in the order `tools/list` returns them.
+ */
+export const TOOLS: ToolDefinition[] = [
+  getBazelConfigTool,
+  getNativelinkDocsTool,
+  analyzeBuildPerformanceTool,
+  generateDeploymentConfigTool,
+  setupWatchAndBuildTool,
+  analyzeCacheMissesTool,
+  analyzeBuildEventsTool,
+  validateBazelrcTool,
+  searchNativelinkDocsTool,
+  analyzeBuildTrendsTool,
+  compareBuildsTool,
+  generateRemotePlatformTool,
+  generateCiConfigTool
+];
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find(tool => tool.name === name);
+}
\ No newline at end of file
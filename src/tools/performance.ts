@@ -1,47 +1,286 @@
 import { z } from 'zod';
-import { OptimizationTarget, type BuildMetrics } from '../lib/types.js';
+import {
+  CostEstimate,
+  OptimizationTarget,
+  PerformanceScore,
+  PriceSheet,
+  PriceSheetName,
+  Scale,
+  SuggestedFlag,
+  type BuildEventSummary,
+  type BuildMetrics,
+  type ProfileSummary,
+  type ToolDefinition,
+  type ToolResult
+} from '../lib/types.js';
 import { NativelinkAPI } from '../lib/api.js';
+import { parseBazelProfile } from '../lib/profile.js';
+import { readBuildEvents, summarizeBuildEvents, toBuildMetrics } from '../lib/bep.js';
+import { DEFAULT_BAZEL_MAJOR, parseBazelMajor, adaptFlagLines, spellFlag } from '../lib/flags.js';
+import { completeMetrics, getDominantMnemonics } from '../lib/metrics.js';
+import { createBuildRecord, type MetricsHistory } from '../lib/history.js';
+import { COST_FLAGS, DEFAULT_BUILDS_PER_MONTH, DEFAULT_PRICE_SHEET, estimateCost, getPriceSheet } from '../lib/cost.js';
+
+export const BuildMetricsSchema = z.object({
+  totalTime: z.number().optional().describe('Total build time in seconds'),
+  cacheHitRate: z.number().min(0).max(1).optional().describe('Cache hit rate (0-1)'),
+  remoteExecutionTime: z.number().optional().describe('Remote execution time in seconds'),
+  localExecutionTime: z.number().optional().describe('Local execution time in seconds'),
+  networkTransferSize: z.number().optional().describe('Network transfer size in bytes'),
+  totalActions: z.number().int().min(0).optional().describe('Actions executed, including cache hits'),
+  failedActions: z.number().int().min(0).optional().describe('Actions that failed'),
+  cacheHits: z.number().int().min(0).optional().describe('Actions served from the remote or disk cache'),
+  cacheMisses: z.number().int().min(0).optional().describe('Actions that had to run'),
+  bytesDownloaded: z.number().min(0).optional().describe('Bytes downloaded from the cache'),
+  bytesUploaded: z.number().min(0).optional().describe('Bytes uploaded to the cache'),
+  workerCount: z.number().int().min(0).optional().describe('Persistent workers started during the build'),
+  mnemonics: z.array(z.object({
+    mnemonic: z.string().describe('Action type, e.g. CppCompile, Javac, GoLink'),
+    actions: z.number().int().min(0).describe('Actions of this type'),
+    totalTime: z.number().min(0).optional().describe('Seconds spent in actions of this type'),
+    workers: z.number().int().min(0).optional().describe('Persistent workers started for this type')
+  })).optional().describe('Per-action-type breakdown')
+});
 
 export const AnalyzeBuildPerformanceSchema = z.object({
-  profileData: z.string().optional(),
-  metrics: z.object({
-    totalTime: z.number().optional(),
-    cacheHitRate: z.number().min(0).max(1).optional(),
-    remoteExecutionTime: z.number().optional(),
-    localExecutionTime: z.number().optional(),
-    networkTransferSize: z.number().optional()
-  }).optional(),
-  targetOptimization: OptimizationTarget.optional()
+  profileData: z.string().optional().describe('Bazel JSON trace profile (raw JSON, or base64 of a .json.gz profile)'),
+  bepData: z.string().optional().describe('Contents of a --build_event_json_file to derive metrics from'),
+  bepPath: z.string().optional().describe('Path to a --build_event_json_file, used instead of bepData'),
+  metrics: BuildMetricsSchema.optional().describe('Build metrics'),
+  targetOptimization: OptimizationTarget.optional().describe('Optimization target'),
+  bazelVersion: z.string().optional().describe('Bazel version the recommended flags should be written for (default: 7)'),
+  recordHistory: z.boolean().optional().describe('Append this build to the local metrics history used by analyze-build-trends (default: off unless the server runs with --record-history)'),
+  workspacePath: z.string().optional().describe('Workspace the build ran in; recorded with its git commit and used to filter trends'),
+  commit: z.string().optional().describe('Commit the build ran at, if not taken from the BEP file or the workspace'),
+  priceSheet: z.union([PriceSheetName, PriceSheet]).optional().describe('Prices for the cost estimate: a built-in sheet (cloud-free, cloud-team, cloud-enterprise, or self-hosted aws, gcp, azure) or custom rates (default: cloud-team, which has placeholder rates)'),
+  scale: Scale.optional().describe('Deployment scale whose instance type prices a self-hosted price sheet (default: medium)'),
+  buildsPerMonth: z.number().int().min(1).optional().describe(`Builds like this one the team runs per month, for the cost estimate (default: ${DEFAULT_BUILDS_PER_MONTH})`),
+  storageGB: z.number().min(0).optional().describe('Cache storage footprint in GB, for the cost estimate')
 });
 
 export type AnalyzeBuildPerformanceParams = z.infer<typeof AnalyzeBuildPerformanceSchema>;
 
+export const AnalyzeBuildPerformanceOutputSchema = z.object({
+  score: PerformanceScore,
+  suggestedFlags: z.array(SuggestedFlag),
+  source: z.enum(['api', 'local']).describe('Whether the analysis came from the Nativelink API or the built-in analyzer'),
+  targetOptimization: OptimizationTarget,
+  metrics: BuildMetricsSchema.describe('Metrics the scores were computed from'),
+  costEstimate: CostEstimate.optional().describe('Monthly cost estimate, included for targetOptimization cost or when pricing parameters are given')
+});
+
+export const analyzeBuildPerformanceTool: ToolDefinition<typeof AnalyzeBuildPerformanceSchema> = {
+  name: 'analyze-build-performance',
+  description: 'Analyze build performance and provide optimization recommendations',
+  schema: AnalyzeBuildPerformanceSchema,
+  outputSchema: AnalyzeBuildPerformanceOutputSchema,
+  handler: (params, { api, history }) => analyzeBuildPerformance(params, api, history)
+};
+
 export async function analyzeBuildPerformance(
   params: AnalyzeBuildPerformanceParams,
-  api: NativelinkAPI
-): Promise<string> {
+  api: NativelinkAPI,
+  history?: MetricsHistory
+): Promise<ToolResult> {
   const target = params.targetOptimization || 'balanced';
+  const bazelMajor = parseBazelMajor(params.bazelVersion) ?? DEFAULT_BAZEL_MAJOR;
+
+  const { metrics, events, profile, profileError } = loadBuild(params);
+  const result = await api.analyzePerformance(metrics, { targetOptimization: target, bazelMajor, profile });
+
+  let analysis = formatScore(result.score) + '\n\n' + result.analysis;
 
-  let analysis = await api.analyzePerformance(params.metrics || {});
+  let costEstimate: CostEstimate | undefined;
+  if (target === 'cost' || params.priceSheet || params.buildsPerMonth || params.storageGB !== undefined) {
+    const sheet = typeof params.priceSheet === 'object'
+      ? params.priceSheet
+      : getPriceSheet(params.priceSheet || DEFAULT_PRICE_SHEET, params.scale);
+    const flags = [...result.suggestedFlags.map(s => s.flag), ...COST_FLAGS]
+      .map(flag => spellFlag(flag, bazelMajor))
+      .filter((flag): flag is string => flag !== null);
+    costEstimate = estimateCost(metrics, sheet, {
+      buildsPerMonth: params.buildsPerMonth || DEFAULT_BUILDS_PER_MONTH,
+      storageGB: params.storageGB
+    }, flags);
+    analysis += '\n\n' + formatCostEstimate(costEstimate, sheet);
+  }
 
   analysis += '\n\n## Optimization Recommendations\n\n';
 
+  let recommendations: string;
   if (target === 'speed') {
-    analysis += getSpeedOptimizations(params.metrics);
+    recommendations = getSpeedOptimizations(metrics);
   } else if (target === 'cost') {
-    analysis += getCostOptimizations(params.metrics);
+    recommendations = getCostOptimizations(metrics, costEstimate);
   } else {
-    analysis += getBalancedOptimizations(params.metrics);
+    recommendations = getBalancedOptimizations(metrics);
+  }
+
+  analysis += adaptFlagLines(recommendations.split('\n'), bazelMajor).join('\n');
+
+  if (result.suggestedFlags.length > 0) {
+    analysis += '\n\n## Suggested Flags\n\n';
+    analysis += result.suggestedFlags.map(s => `- \`${s.command} ${s.flag}\` (${s.area}): ${s.rationale}`).join('\n');
   }
 
   if (params.profileData) {
     analysis += '\n\n## Profile Analysis\n\n';
-    analysis += analyzeProfileData(params.profileData);
+    analysis += profile
+      ? analyzeProfileData(profile)
+      : `Unable to parse profile data (${profileError}). ` +
+        'Provide the output of `--profile=profile.json --generate_json_trace_profile` as JSON, or base64 for `.json.gz` files.';
   }
 
-  return analysis;
+  if (history && (params.recordHistory ?? history.recordByDefault)) {
+    const record = createBuildRecord({ metrics, events, profile, workspacePath: params.workspacePath, commit: params.commit });
+    history.append(record);
+    const at = record.commit ? ` at ${record.commit.slice(0, 12)}` : '';
+    analysis += `\n\n_Recorded build ${record.id}${at} in ${history.file}. Use \`analyze-build-trends\` to compare it with earlier builds._`;
+  }
+
+  return {
+    text: analysis,
+    structuredContent: {
+      score: result.score,
+      suggestedFlags: result.suggestedFlags,
+      source: result.source,
+      targetOptimization: target,
+      metrics: { ...metrics },
+      ...(costEstimate && { costEstimate })
+    }
+  };
 }
 
+function formatScore(score: PerformanceScore): string {
+  const format = (value: number | null) => value === null ? 'n/a (no data)' : `${value}/100`;
+  return [
+    '## Performance Score',
+    '',
+    '| Area | Score |',
+    '|------|-------|',
+    `| **Overall** | **${format(score.overall)}** |`,
+    `| Cache efficiency | ${format(score.cacheEfficiency)} |`,
+    `| Network usage | ${format(score.networkUsage)} |`,
+    `| Parallelization | ${format(score.parallelization)} |`
+  ].join('\n');
+}
+
+function formatCostEstimate(estimate: CostEstimate, sheet: PriceSheet): string {
+  const usd = (value: number) => `$${value.toFixed(2)}`;
+  const included = (value?: number, unit = '') => value ? ` (${value}${unit} included)` : '';
+  const { usage } = estimate;
+  const lines: string[] = [
+    '## Cost Estimate',
+    '',
+    `**${usd(estimate.monthlyCost)}/month** for ${estimate.buildsPerMonth} builds like this one on ${sheet.name}.`,
+    '',
+    ...(estimate.placeholderRates
+      ? ['> **Placeholder rates:** these are not Nativelink\'s published prices. Pass `priceSheet` with the rates of your plan for a real estimate.', '']
+      : []),
+    '| Item | Usage / month | Rate |',
+    '|------|---------------|------|',
+    `| Base | - | ${usd(sheet.monthlyBase)}/month |`,
+    `| Remote execution | ${usage.remoteExecutionHours} hours${included(sheet.included?.remoteExecutionHours, ' hours')} | ${usd(sheet.remoteExecutionHour)}/hour |`,
+    `| Transfer | ${usage.transferGB} GB${included(sheet.included?.transferGB, ' GB')} | ${usd(sheet.transferGB)}/GB |`,
+    `| Storage | ${usage.storageGB === null ? 'not given' : `${usage.storageGB} GB`}${included(sheet.included?.storageGB, ' GB')} | ${usd(sheet.storageGBMonth)}/GB-month |`
+  ];
+
+  if (estimate.flagEffects.length > 0) {
+    lines.push('', '### Effect of Flags on Cost', '');
+    lines.push('| Flag | Cost / month | Change | Assumption |', '|------|--------------|--------|------------|');
+    for (const effect of [...estimate.flagEffects].sort((a, b) => a.change - b.change)) {
+      const change = effect.change === 0 ? 'none' : `${effect.change < 0 ? '-' : '+'}${usd(Math.abs(effect.change))}`;
+      lines.push(`| \`${effect.flag}\` | ${usd(effect.monthlyCost)} | ${change} | ${effect.assumption} |`);
+    }
+    lines.push(`| **All of the above** | **${usd(estimate.monthlyCostWithFlags)}** | ` +
+      `${usd(estimate.monthlyCost - estimate.monthlyCostWithFlags)} saved | |`);
+  }
+
+  lines.push(
+    '',
+    '_Remote execution hours are the wall time of remote actions added up. Pass `priceSheet` with your own rates for a firmer number, ' +
+    'and `storageGB` to include cache storage._'
+  );
+  return lines.join('\n');
+}
+
+export interface BuildSource {
+  metrics?: BuildMetrics;
+  profileData?: string;
+  bepData?: string;
+  bepPath?: string;
+}
+
+export interface LoadedBuild {
+  metrics: BuildMetrics;
+  events?: BuildEventSummary;
+  profile?: ProfileSummary;
+  profileError?: string;
+}
+
+/**
+ * Parses the profile and BEP file of one build and merges them into its `BuildMetrics`.
+ * Metrics typed in by the caller take precedence over ones derived from a BEP file.
+ */
+export function loadBuild(source: BuildSource, slowestActions?: number): LoadedBuild {
+  let profile: ProfileSummary | undefined;
+  let profileError: string | undefined;
+  if (source.profileData) {
+    try {
+      profile = parseBazelProfile(source.profileData, slowestActions);
+    } catch (error) {
+      profileError = error instanceof Error ? error.message : 'unknown error';
+    }
+  }
+
+  const events = source.bepData || source.bepPath
+    ? summarizeBuildEvents(readBuildEvents(source.bepData, source.bepPath))
+    : undefined;
+  const derived = events ? toBuildMetrics(events) : {};
+
+  return {
+    metrics: completeMetrics({ ...derived, ...source.metrics }, profile),
+    events,
+    profile,
+    profileError
+  };
+}
+
+// Advice for the action types that most often dominate a build.
+const MNEMONIC_ADVICE: Record<string, { advice: string; flags?: string[] }> = {
+  CppCompile: {
+    advice: 'A hermetic C++ toolchain (for example toolchains_llvm) gives compile actions the same key on every machine, so they hit the cache across developers and CI.',
+    flags: ['build --incompatible_strict_action_env']
+  },
+  CppLink: {
+    advice: 'Split debug info keeps link inputs small, which shortens the upload and download around each link.',
+    flags: ['build --fission=yes']
+  },
+  Javac: {
+    advice: 'Send Java compiles to the cluster and keep local persistent workers as the fallback.',
+    flags: ['build --strategy=Javac=remote,worker']
+  },
+  GoCompilePkg: {
+    advice: 'Go builds run many small compile actions; more concurrent jobs keep the remote workers busy.',
+    flags: ['build --jobs=200']
+  },
+  GoLink: {
+    advice: 'Pure Go builds skip cgo, so links no longer depend on the host C++ toolchain.',
+    flags: ['build --@io_bazel_rules_go//go/config:pure']
+  },
+  Rustc: {
+    advice: 'Pipelined compilation lets dependent crates start as soon as metadata is ready.',
+    flags: ['build --@rules_rust//rust/settings:pipelined_compilation=True']
+  },
+  TestRunner: {
+    advice: 'Shard long tests with `shard_count` so they run in parallel on remote workers, and skip downloading test outputs.',
+    flags: ['test --remote_download_minimal']
+  },
+  Genrule: {
+    advice: 'Genrules are often non-hermetic (timestamps, absolute paths). Compare two builds with `analyze-cache-misses` to find the ones that never hit.'
+  }
+};
+
 function getSpeedOptimizations(metrics?: Partial<BuildMetrics>): string {
   const recommendations: string[] = [
     '### Speed Optimizations\n'
@@ -58,7 +297,7 @@ function getSpeedOptimizations(metrics?: Partial<BuildMetrics>): string {
   recommendations.push('```');
   recommendations.push('build --remote_max_connections=500');
   recommendations.push('build --remote_timeout=30');
-  recommendations.push('build --experimental_remote_cache_async');
+  recommendations.push('build --remote_cache_async');
   recommendations.push('```\n');
 
   if (metrics?.cacheHitRate && metrics.cacheHitRate < 0.7) {
@@ -68,6 +307,17 @@ function getSpeedOptimizations(metrics?: Partial<BuildMetrics>): string {
     recommendations.push('- Configure proper platform settings\n');
   }
 
+  for (const { mnemonic, share } of getDominantMnemonics(metrics || {})) {
+    const advice = MNEMONIC_ADVICE[mnemonic];
+    if (!advice) continue;
+    recommendations.push(`**${mnemonic} (${Math.round(share * 100)}% of the build):**`);
+    recommendations.push(advice.advice);
+    if (advice.flags) {
+      recommendations.push('```', ...advice.flags, '```');
+    }
+    recommendations.push('');
+  }
+
   recommendations.push('**Use Local Execution for Small Targets:**');
   recommendations.push('```');
   recommendations.push('build --modify_execution_info=.*-pkg.*=+no-remote');
@@ -76,17 +326,27 @@ function getSpeedOptimizations(metrics?: Partial<BuildMetrics>): string {
   return recommendations.join('\n');
 }
 
-function getCostOptimizations(metrics?: Partial<BuildMetrics>): string {
+function getCostOptimizations(metrics?: Partial<BuildMetrics>, estimate?: CostEstimate): string {
   const recommendations: string[] = [
     '### Cost Optimizations\n'
   ];
 
-  recommendations.push('**Minimize Data Transfer:**');
-  recommendations.push('```');
-  recommendations.push('build --remote_download_minimal');
-  recommendations.push('build --experimental_remote_cache_compression');
-  recommendations.push('build --experimental_remote_build_event_upload=minimal');
-  recommendations.push('```\n');
+  const savings = (estimate?.flagEffects || []).filter(e => e.change < 0).sort((a, b) => a.change - b.change);
+  if (savings.length > 0) {
+    recommendations.push('**Largest Savings First:**');
+    recommendations.push('```');
+    for (const effect of savings) {
+      recommendations.push(`build ${effect.flag}  # saves ~$${Math.abs(effect.change).toFixed(2)}/month`);
+    }
+    recommendations.push('```\n');
+  } else {
+    recommendations.push('**Minimize Data Transfer:**');
+    recommendations.push('```');
+    recommendations.push('build --remote_download_minimal');
+    recommendations.push('build --remote_cache_compression');
+    recommendations.push('build --remote_build_event_upload=minimal');
+    recommendations.push('```\n');
+  }
 
   recommendations.push('**Optimize Resource Usage:**');
   recommendations.push('```');
@@ -120,7 +380,7 @@ function getBalancedOptimizations(metrics?: Partial<BuildMetrics>): string {
   recommendations.push('```');
   recommendations.push('build --jobs=100');
   recommendations.push('build --remote_download_outputs=minimal');
-  recommendations.push('build --experimental_remote_cache_compression');
+  recommendations.push('build --remote_cache_compression');
   recommendations.push('build --remote_timeout=60');
   recommendations.push('build --remote_retries=2');
   recommendations.push('```\n');
@@ -142,20 +402,76 @@ function getBalancedOptimizations(metrics?: Partial<BuildMetrics>): string {
   return recommendations.join('\n');
 }
 
-function analyzeProfileData(profileData: string): string {
-  try {
-    const lines = profileData.split('\n').slice(0, 10);
+function analyzeProfileData(summary: ProfileSummary): string {
+  const lines: string[] = [
+    `**Wall time:** ${formatSeconds(summary.totalTime)} across ${summary.actionCount} actions`,
+    ''
+  ];
+
+  if (summary.phases.length > 0) {
+    lines.push('### Phases', '');
+    for (const phase of summary.phases) {
+      lines.push(`- ${phase.name} (${phase.group}): ${formatSeconds(phase.duration)}`);
+    }
+    lines.push('');
+  }
 
-    return `Profile data detected (${profileData.length} bytes).
+  lines.push('### Critical Path', '');
+  if (summary.criticalPath.components.length > 0) {
+    lines.push(`Total: ${formatSeconds(summary.criticalPath.duration)}`, '');
+    for (const component of summary.criticalPath.components) {
+      lines.push(`- ${formatSeconds(component.duration)} ${component.name}`);
+    }
+  } else {
+    lines.push('No critical path events found in the profile.');
+  }
+  lines.push('');
 
-Consider using:
-- \`bazel analyze-profile profile.json\` for detailed analysis
-- Upload to https://app.nativelink.com/profile for visualization
-- Key metrics to review:
-  - Critical path duration
-  - Action execution time
-  - Remote vs local execution ratio`;
-  } catch (error) {
-    return 'Unable to parse profile data. Ensure it\'s in JSON format.';
+  if (summary.mnemonics.length > 0) {
+    lines.push('### Time by Mnemonic', '');
+    lines.push('| Mnemonic | Actions | Total | Slowest |');
+    lines.push('|----------|---------|-------|---------|');
+    for (const m of summary.mnemonics.slice(0, 10)) {
+      lines.push(`| ${m.mnemonic} | ${m.count} | ${formatSeconds(m.totalTime)} | ${formatSeconds(m.maxTime)} |`);
+    }
+    lines.push('');
   }
+
+  if (summary.slowestActions.length > 0) {
+    lines.push('### Slowest Actions', '');
+    for (const action of summary.slowestActions) {
+      const target = action.target ? ` (${action.target})` : '';
+      lines.push(`- ${formatSeconds(action.duration)} [${action.mnemonic}] ${action.name}${target}`);
+    }
+    lines.push('');
+  }
+
+  const { remote, cacheHit, local, unknown } = summary.spawns;
+  const classified = remote + cacheHit + local;
+  lines.push('### Spawn Execution', '');
+  if (classified > 0) {
+    lines.push(`- Remote execution: ${remote} (${formatPercent(remote / classified)})`);
+    lines.push(`- Remote cache hits: ${cacheHit} (${formatPercent(cacheHit / classified)})`);
+    lines.push(`- Local execution: ${local} (${formatPercent(local / classified)})`);
+    if (unknown > 0) {
+      lines.push(`- Not classified (internal or disk-cached actions): ${unknown}`);
+    }
+    if (local > remote + cacheHit) {
+      lines.push('', '⚠️ Most spawns ran locally. Check that `--remote_executor` is set and that actions are not tagged `no-remote`.');
+    }
+  } else {
+    lines.push('No spawn-level events found in the profile.');
+  }
+
+  return lines.join('\n');
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds >= 60
+    ? `${Math.floor(seconds / 60)}m ${(seconds % 60).toFixed(1)}s`
+    : `${seconds.toFixed(2)}s`;
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
 }
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { z } from 'zod';
+import { ProjectType, type ToolDefinition, type WorkspaceInfo } from '../lib/types.js';
+import { detectWorkspace } from '../lib/workspace.js';
+import { DEFAULT_BAZEL_MAJOR, parseBazelMajor, adaptFlagLines } from '../lib/flags.js';
+import { resolveLanguages } from './config.js';
+
+export const DEFAULT_WORKER_IMAGE = 'docker://ubuntu:22.04';
+
+export const GenerateRemotePlatformSchema = z.object({
+  projectType: ProjectType.optional().describe('Type of project (required unless workspacePath is given)'),
+  workspacePath: z.string().optional().describe('Path to a Bazel workspace; languages, rulesets and Bazel version are detected from it'),
+  bazelVersion: z.string().optional().describe('Bazel version to write flags for (default: detected from the workspace, else 7)'),
+  containerImage: z.string().optional().describe(`Image the remote workers run actions in, e.g. docker://ghcr.io/org/worker@sha256:... (default: ${DEFAULT_WORKER_IMAGE})`),
+  cpu: z.enum(['x86_64', 'aarch64']).default('x86_64').describe('CPU architecture of the remote workers (default: x86_64)'),
+  platformName: z.string().regex(/^[A-Za-z0-9_-]+$/).default('nativelink_remote').describe('Name of the generated platform target (default: nativelink_remote)'),
+  packagePath: z.string().regex(/^[A-Za-z0-9_\-/]+$/).default('platforms').describe('Package the platform BUILD file goes in (default: platforms)')
+}).refine(p => p.projectType || p.workspacePath, {
+  message: 'projectType or workspacePath is required',
+  path: ['projectType']
+});
+
+export type GenerateRemotePlatformParams = z.infer<typeof GenerateRemotePlatformSchema>;
+
+export const generateRemotePlatformTool: ToolDefinition<typeof GenerateRemotePlatformSchema> = {
+  name: 'generate-remote-platform',
+  description: 'Generate the platform() definition, .bazelrc flags and toolchain registration that remote execution on Nativelink workers needs',
+  schema: GenerateRemotePlatformSchema,
+  handler: params => generateRemotePlatform(params)
+};
+
+type Language = Exclude<ProjectType, 'mixed'>;
+
+const ALL_LANGUAGES: Language[] = ['cpp', 'java', 'python', 'go', 'rust'];
+
+// Rulesets that bring their own C++ toolchain instead of using the compiler found on the host.
+const HERMETIC_CC_RULESETS = ['toolchains_llvm', 'hermetic_cc_toolchain'];
+
+interface ToolchainSetup {
+  module: string[];
+  bazelrc: string[];
+  notes: string[];
+}
+
+export function generateRemotePlatform(params: GenerateRemotePlatformParams): string {
+  const workspace = params.workspacePath ? detectWorkspace(params.workspacePath) : undefined;
+  const detected = resolveLanguages(params.projectType, workspace);
+  const languages = (detected.length > 0 ? detected : ALL_LANGUAGES) as Language[];
+  const bazelMajor = parseBazelMajor(params.bazelVersion || workspace?.bazelVersion) ?? DEFAULT_BAZEL_MAJOR;
+  const image = params.containerImage || DEFAULT_WORKER_IMAGE;
+  const label = `//${params.packagePath}:${params.platformName}`;
+
+  const setups = languages.map(language => getToolchainSetup(language, languages, workspace));
+
+  const build = [
+    'platform(',
+    `    name = "${params.platformName}",`,
+    '    constraint_values = [',
+    '        "@platforms//os:linux",',
+    `        "@platforms//cpu:${params.cpu}",`,
+    '    ],',
+    '    # Part of every action key: everyone sharing the cache must use the same values.',
+    '    exec_properties = {',
+    '        "OSFamily": "Linux",',
+    `        "container-image": "${image}",`,
+    '    },',
+    ')'
+  ];
+
+  const bazelrc = [
+    '# Remote Execution Platform',
+    `build --extra_execution_platforms=${label}`,
+    `build --host_platform=${label}`,
+    `build --platforms=${label}`,
+    ...(languages.includes('cpp') && bazelMajor < 7 ? ['build --incompatible_enable_cc_toolchain_resolution'] : []),
+    ...setups.flatMap(setup => setup.bazelrc)
+  ];
+
+  const module = [
+    '# Skip bazel_dep lines for modules MODULE.bazel already has.',
+    'bazel_dep(name = "platforms", version = "0.0.10")',
+    ...setups.flatMap(setup => setup.module.length > 0 ? ['', ...setup.module] : [])
+  ];
+
+  const worker = [
+    'platform_properties: {',
+    '  cpu_count: { query_cmd: "nproc" },',
+    '  OSFamily: { values: ["Linux"] },',
+    `  "container-image": { values: ["${image}"] },`,
+    '},'
+  ];
+
+  const lines: string[] = [
+    '# Remote Execution Platform',
+    '',
+    `Platform \`${label}\` for ${languages.join(', ')} actions on Linux ${params.cpu} workers running \`${image}\`.`,
+    ''
+  ];
+
+  lines.push(`## ${params.packagePath}/BUILD.bazel`, '', '```starlark', ...build, '```', '');
+  lines.push('## .bazelrc', '', 'Add next to the `--remote_executor` flags from `get-bazel-config`:', '');
+  lines.push('```', ...adaptFlagLines(bazelrc, bazelMajor), '```', '');
+  lines.push('## MODULE.bazel', '');
+  if (workspace && !workspace.bzlmod) {
+    lines.push('This workspace uses WORKSPACE; each ruleset\'s README has the equivalent repository rules for these toolchains.', '');
+  }
+  lines.push('```starlark', ...module, '```', '');
+  lines.push(
+    '## Nativelink Worker',
+    '',
+    'For self-hosted workers, advertise the same properties in the worker entry of `config.json5`:',
+    '',
+    '```json5',
+    ...worker,
+    '```',
+    ''
+  );
+
+  const notes = [
+    `Pin \`container-image\` by digest (\`@sha256:...\`). A moving tag changes what runs without changing the action key, so cached results from an older image are reused.`,
+    'Actions run in the worker\'s own container. Build self-hosted workers from this image (or add the nativelink binary to it) so the toolchains below find what they expect.',
+    ...setups.flatMap(setup => setup.notes)
+  ];
+  lines.push('## Notes', '', ...notes.map(note => `- ${note}`));
+
+  return lines.join('\n');
+}
+
+function getToolchainSetup(language: Language, languages: Language[], workspace?: WorkspaceInfo): ToolchainSetup {
+  const ruleset = (name: string) => workspace?.rulesets.find(r => r.name === name);
+  const dep = (name: string, version: string) => ruleset(name) ? [] : [`bazel_dep(name = "${name}", version = "${version}")`];
+
+  switch (language) {
+    case 'cpp': {
+      const hermetic = HERMETIC_CC_RULESETS.map(ruleset).find(r => r !== undefined);
+      if (hermetic) {
+        return {
+          module: [],
+          bazelrc: ['build --repo_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1'],
+          notes: [`C++: ${hermetic.name} already provides a hermetic toolchain; make sure it is registered with \`register_toolchains\`.`]
+        };
+      }
+      return {
+        module: [
+          '# C++: hermetic LLVM toolchain, so remote actions do not depend on a compiler in the image',
+          ...dep('toolchains_llvm', '1.2.0'),
+          'llvm = use_extension("@toolchains_llvm//toolchain/extensions:llvm.bzl", "llvm")',
+          'llvm.toolchain(llvm_version = "17.0.6")',
+          'use_repo(llvm, "llvm_toolchain")',
+          'register_toolchains("@llvm_toolchain//:all")'
+        ],
+        bazelrc: ['build --repo_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1'],
+        notes: ['C++: without a registered toolchain Bazel autodetects the host compiler, whose paths do not exist on the workers and differ between machines.']
+      };
+    }
+    case 'java':
+      return {
+        module: [],
+        bazelrc: [
+          'build --java_language_version=11',
+          'build --java_runtime_version=remotejdk_11',
+          'build --tool_java_language_version=11',
+          'build --tool_java_runtime_version=remotejdk_11'
+        ],
+        notes: ['Java: the remote JDK is downloaded as an input, so the image does not need a JDK.']
+      };
+    case 'python': {
+      const repo = ruleset('rules_python')?.repoName || 'rules_python';
+      return {
+        module: [
+          '# Python: hermetic interpreter instead of the python3 on the worker',
+          ...dep('rules_python', '0.36.0'),
+          `python = use_extension("@${repo}//python/extensions:python.bzl", "python")`,
+          'python.toolchain(python_version = "3.11")'
+        ],
+        bazelrc: [`build --@${repo}//python/config_settings:bootstrap_impl=script`],
+        notes: ['Python: `bootstrap_impl=script` starts binaries without a system python3; it needs rules_python 0.33 or later.']
+      };
+    }
+    case 'go': {
+      const repo = ruleset('rules_go')?.repoName || ruleset('io_bazel_rules_go')?.repoName || 'rules_go';
+      return {
+        module: [
+          '# Go: SDK downloaded by rules_go',
+          ...dep('rules_go', '0.50.1'),
+          `go_sdk = use_extension("@${repo}//go:extensions.bzl", "go_sdk")`,
+          'go_sdk.download(version = "1.23.1")'
+        ],
+        bazelrc: [],
+        notes: languages.includes('cpp')
+          ? []
+          : [`Go: cgo targets also need a C++ toolchain; add the one this tool generates for projectType cpp, or build with \`--@${repo}//go/config:pure\`.`]
+      };
+    }
+    case 'rust': {
+      const repo = ruleset('rules_rust')?.repoName || 'rules_rust';
+      return {
+        module: [
+          '# Rust: toolchain downloaded by rules_rust',
+          ...dep('rules_rust', '0.52.2'),
+          `rust = use_extension("@${repo}//rust:extensions.bzl", "rust")`,
+          'rust.toolchain(edition = "2021", versions = ["1.81.0"])',
+          'use_repo(rust, "rust_toolchains")',
+          'register_toolchains("@rust_toolchains//:all")'
+        ],
+        bazelrc: [],
+        notes: languages.includes('cpp')
+          ? []
+          : ['Rust: rustc links through the C++ toolchain; add the one this tool generates for projectType cpp so linking works on the workers.']
+      };
+    }
+  }
+}
\ No newline at end of file
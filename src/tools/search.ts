@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { searchDocs, type SearchResult } from '../lib/search.js';
+import type { ToolDefinition } from '../lib/types.js';
+
+export const SearchNativelinkDocsSchema = z.object({
+  query: z.string().min(1).describe('Free-text question, e.g. "how do I configure S3 store eviction"'),
+  maxResults: z.number().int().min(1).max(20).default(5).describe('Maximum number of sections to consider (default: 5)'),
+  maxTokens: z.number().min(200).default(2000).describe('Approximate token budget; whole sections are included until it is reached (default: 2000)')
+});
+
+export type SearchNativelinkDocsParams = z.infer<typeof SearchNativelinkDocsSchema>;
+
+export const searchNativelinkDocsTool: ToolDefinition<typeof SearchNativelinkDocsSchema> = {
+  name: 'search-nativelink-docs',
+  description: 'Search the bundled Nativelink documentation and return the best matching sections with their source anchors',
+  schema: SearchNativelinkDocsSchema,
+  handler: params => searchNativelinkDocs(params)
+};
+
+const CHARS_PER_TOKEN = 4;
+
+export function searchNativelinkDocs(params: SearchNativelinkDocsParams): string {
+  const results = searchDocs(params.query, params.maxResults);
+
+  if (results.length === 0) {
+    return [
+      `# Nativelink Docs: "${params.query}"`,
+      '',
+      'No sections matched. Try different keywords, or use `get-nativelink-docs` with one of: setup, migration, optimization, troubleshooting, api.'
+    ].join('\n');
+  }
+
+  const budget = params.maxTokens * CHARS_PER_TOKEN;
+  const included: string[] = [];
+  const omitted: SearchResult[] = [];
+  let used = 0;
+
+  for (const result of results) {
+    const block = formatSection(result);
+    if (used + block.length <= budget) {
+      included.push(block);
+      used += block.length;
+    } else {
+      omitted.push(result);
+    }
+  }
+
+  // The best match is always shown; if it alone is over budget it is cut at a paragraph boundary.
+  if (included.length === 0) {
+    included.push(shortenSection(results[0], budget));
+    omitted.shift();
+  }
+
+  const lines = [
+    `# Nativelink Docs: "${params.query}"`,
+    '',
+    `Showing ${included.length} of ${results.length} matching sections.`,
+    '',
+    included.join('\n\n')
+  ];
+
+  if (omitted.length > 0) {
+    lines.push('', '---', '', 'More matches (raise `maxTokens` or read the resource):');
+    for (const result of omitted) {
+      lines.push(`- ${result.section.path.join(' › ')} (${result.section.uri})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatSection(result: SearchResult): string {
+  return [
+    `## ${result.section.path.join(' › ')}`,
+    `Source: ${result.section.uri}`,
+    '',
+    result.section.text
+  ].join('\n');
+}
+
+function shortenSection(result: SearchResult, budget: number): string {
+  const header = formatSection({ ...result, section: { ...result.section, text: '' } });
+  const paragraphs = result.section.text.split(/\n{2,}/);
+  const kept = [paragraphs[0]];
+
+  for (const paragraph of paragraphs.slice(1)) {
+    if (header.length + [...kept, paragraph].join('\n\n').length > budget) break;
+    kept.push(paragraph);
+  }
+
+  return `${header}${kept.join('\n\n')}\n\n_(Section shortened; read ${result.section.uri} for the rest.)_`;
+}
\ No newline at end of file
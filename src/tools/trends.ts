@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { resolve } from 'path';
+import {
+  MetricsHistory,
+  TRACKED_METRICS,
+  detectRegressions,
+  median,
+  type BuildRecord,
+  type TrackedMetric
+} from '../lib/history.js';
+import type { ToolDefinition } from '../lib/types.js';
+import { formatBytes } from '../lib/utils.js';
+
+export const AnalyzeBuildTrendsSchema = z.object({
+  workspacePath: z.string().optional().describe('Only include builds recorded for this workspace'),
+  limit: z.number().int().min(2).max(500).default(30).describe('Number of most recent builds to include (default: 30)'),
+  window: z.number().int().min(1).max(50).default(5).describe('Builds in the rolling baseline each build is compared against (default: 5)'),
+  threshold: z.number().min(0.01).max(1).default(0.1).describe('Relative change that counts as a regression, e.g. 0.1 for 10% (default: 0.1)'),
+  historyFile: z.string().optional().describe('Metrics history to read instead of the server default')
+});
+
+export type AnalyzeBuildTrendsParams = z.infer<typeof AnalyzeBuildTrendsSchema>;
+
+export const analyzeBuildTrendsTool: ToolDefinition<typeof AnalyzeBuildTrendsSchema> = {
+  name: 'analyze-build-trends',
+  description: 'Show cache hit rate, wall time, critical path and bytes transferred across recorded builds, and find the first build where a metric regressed',
+  schema: AnalyzeBuildTrendsSchema,
+  handler: (params, { history }) => analyzeBuildTrends(params, params.historyFile ? new MetricsHistory(params.historyFile) : history)
+};
+
+const TABLE_ROWS = 15;
+
+export function analyzeBuildTrends(params: AnalyzeBuildTrendsParams, history: MetricsHistory): string {
+  const workspace = params.workspacePath ? resolve(params.workspacePath) : undefined;
+  const records = history.read()
+    .filter(record => !workspace || record.workspace === workspace)
+    .slice(-params.limit);
+
+  const lines: string[] = ['# Build Trends', ''];
+
+  if (records.length < 2) {
+    lines.push(
+      `Found ${records.length} recorded build${records.length === 1 ? '' : 's'}${workspace ? ` for ${workspace}` : ''} in ${history.file}; trends need at least 2.`,
+      '',
+      'Record builds by calling `analyze-build-performance` with `recordHistory: true` (and a `bepPath` or `profileData`),',
+      'or start the server with `--record-history` to record every analysis.'
+    );
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `${records.length} builds from ${formatDate(records[0].recordedAt)} to ${formatDate(records[records.length - 1].recordedAt)}` +
+    `${workspace ? ` in ${workspace}` : ''}.`,
+    ''
+  );
+
+  lines.push('## Builds', '');
+  lines.push('| # | Date | Commit | Wall time | Cache hit rate | Critical path | Transferred |');
+  lines.push('|---|------|--------|-----------|----------------|---------------|-------------|');
+  const offset = records.length - Math.min(records.length, TABLE_ROWS);
+  records.slice(offset).forEach((record, i) => {
+    const values = TRACKED_METRICS.map(metric => formatValue(metric, metric.get(record)));
+    lines.push(`| ${offset + i + 1} | ${formatDate(record.recordedAt)} | ${formatCommit(record)} | ${values.join(' | ')} |`);
+  });
+  if (offset > 0) {
+    lines.push('', `_${offset} older builds are used for the baseline but not shown._`);
+  }
+  lines.push('');
+
+  lines.push('## Latest vs Baseline', '');
+  lines.push(`Baseline: median of the ${params.window} builds before the latest.`, '');
+  for (const metric of TRACKED_METRICS) {
+    const values = records.map(metric.get).filter((v): v is number => v !== undefined);
+    if (values.length < 2) {
+      lines.push(`- **${metric.label}:** not enough data`);
+      continue;
+    }
+    const latest = values[values.length - 1];
+    const baseline = median(values.slice(-params.window - 1, -1));
+    lines.push(`- **${metric.label}:** ${formatValue(metric, latest)} vs ${formatValue(metric, baseline)} ${trendMarker(metric, baseline, latest)}`);
+  }
+  lines.push('');
+
+  const regressions = detectRegressions(records, { window: params.window, threshold: params.threshold });
+  lines.push('## Regressions', '');
+  if (regressions.length === 0) {
+    lines.push(`✅ No metric is more than ${Math.round(params.threshold * 100)}% worse than its rolling baseline.`);
+  } else {
+    for (const regression of regressions) {
+      const index = records.indexOf(regression.firstBuild) + 1;
+      const change = Number.isFinite(regression.change) ? `${Math.round(regression.change * 100)}% worse` : 'up from zero';
+      lines.push(
+        `- ⚠️ **${regression.metric.label}** ${formatValue(regression.metric, regression.baseline)} → ` +
+        `${formatValue(regression.metric, regression.latest)} (${change}), ` +
+        `first seen in build #${index} on ${formatDate(regression.firstBuild.recordedAt)} at ${formatCommit(regression.firstBuild)}`
+      );
+    }
+    lines.push(
+      '',
+      'Compare the first regressed build with the one before it: `analyze-cache-misses` explains cache hit rate drops,',
+      'and the recorded flags show configuration changes between the two.'
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function trendMarker(metric: TrackedMetric, baseline: number, latest: number): string {
+  if (baseline === latest) return '(unchanged)';
+  const improved = metric.better === 'lower' ? latest < baseline : latest > baseline;
+  const change = baseline === 0 ? '' : ` ${Math.abs(Math.round(((latest - baseline) / baseline) * 100))}%`;
+  return improved ? `(✅ better${change})` : `(⚠️ worse${change})`;
+}
+
+function formatValue(metric: TrackedMetric, value: number | undefined): string {
+  if (value === undefined) return '-';
+  switch (metric.key) {
+    case 'cacheHitRate': return `${(value * 100).toFixed(1)}%`;
+    case 'bytesTransferred': return formatBytes(value);
+    default: return `${value.toFixed(1)}s`;
+  }
+}
+
+function formatCommit(record: BuildRecord): string {
+  return record.commit ? `\`${record.commit.slice(0, 7)}\`` : '-';
+}
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 16).replace('T', ' ');
+}
\ No newline at end of file
@@ -0,0 +1,374 @@
+import { z } from 'zod';
+import { parseBazelrc, readBazelrcFile, getScopeKey, type BazelrcEntry, type BazelrcImport, type ParsedBazelrc } from '../lib/bazelrc.js';
+import {
+  RENAMED_FLAGS,
+  REPLACED_FLAGS,
+  REPEATABLE_FLAGS,
+  API_KEY_HEADER,
+  FLAG_COMPATIBILITY,
+  parseBazelMajor,
+  getFlagSpelling,
+  getUnsupportedReason
+} from '../lib/flags.js';
+import { detectWorkspace } from '../lib/workspace.js';
+import type { ToolDefinition } from '../lib/types.js';
+
+export const ValidateBazelrcSchema = z.object({
+  bazelrc: z.string().optional().describe('Contents of the .bazelrc to validate'),
+  bazelrcPath: z.string().optional().describe('Path to the .bazelrc, used instead of bazelrc (imports are followed)'),
+  workspacePath: z.string().optional().describe('Workspace root used to resolve %workspace% in import/try-import lines'),
+  bazelVersion: z.string().optional().describe('Bazel version to check flags against, e.g. 7.4.1 or 8.x (default: detected from the workspace; unchecked if unknown)')
+}).refine(p => p.bazelrc !== undefined || p.bazelrcPath, {
+  message: 'bazelrc or bazelrcPath is required',
+  path: ['bazelrc']
+});
+
+export type ValidateBazelrcParams = z.infer<typeof ValidateBazelrcSchema>;
+
+export const validateBazelrcTool: ToolDefinition<typeof ValidateBazelrcSchema> = {
+  name: 'validate-bazelrc',
+  description: 'Lint a .bazelrc against Nativelink best practices: conflicting and deprecated flags, missing auth headers, incomplete remote settings',
+  schema: ValidateBazelrcSchema,
+  handler: params => validateBazelrc(params)
+};
+
+export type IssueSeverity = 'error' | 'warning' | 'suggestion' | 'note';
+
+export interface BazelrcIssue {
+  severity: IssueSeverity;
+  file: string;
+  line: number;
+  message: string;
+  fix?: string;
+}
+
+const HEADER_FLAGS = ['remote_header', 'remote_cache_header', 'credential_helper', 'tls_client_certificate'];
+const BES_HEADER_FLAGS = ['bes_header', 'remote_header', 'credential_helper', 'tls_client_certificate'];
+const BASE_COMMANDS = ['common', 'always', 'build'];
+const USER_BAZELRC = /\.bazelrc\.user$|user\.bazelrc$/;
+
+export function validateBazelrc(params: ValidateBazelrcParams): string {
+  const parsed = params.bazelrcPath
+    ? readBazelrcFile(params.bazelrcPath, params.workspacePath)
+    : parseBazelrc(params.bazelrc || '', { workspacePath: params.workspacePath });
+
+  const bazelVersion = params.bazelVersion
+    || (params.workspacePath ? detectWorkspace(params.workspacePath).bazelVersion : undefined);
+  const issues = collectIssues(parsed, parseBazelMajor(bazelVersion));
+  return formatIssues(issues, parsed);
+}
+
+export function collectIssues(parsed: ParsedBazelrc, bazelMajor?: number): BazelrcIssue[] {
+  const issues: BazelrcIssue[] = [];
+
+  for (const error of parsed.errors) {
+    issues.push({ severity: 'error', ...error });
+  }
+
+  for (const entry of parsed.entries) {
+    const versionIssue = bazelMajor !== undefined ? checkFlagVersion(entry, bazelMajor) : undefined;
+    const replacement = RENAMED_FLAGS[entry.name];
+    // Bazel 6 only knows the legacy spelling of some flags, so it is not deprecated there.
+    const onlySpelling = bazelMajor !== undefined && replacement in FLAG_COMPATIBILITY
+      && getFlagSpelling(entry.name, bazelMajor) === entry.name;
+    if (versionIssue) {
+      issues.push(versionIssue);
+    } else if (replacement && !onlySpelling) {
+      issues.push({
+        severity: 'warning',
+        file: entry.file,
+        line: entry.line,
+        message: `\`--${entry.name}\` is deprecated`,
+        fix: `${getScopeKey(entry)} --${replacement}${entry.value !== undefined && !entry.negated ? `=${entry.value}` : ''}`
+      });
+    } else if (REPLACED_FLAGS[entry.name]) {
+      issues.push({
+        severity: 'warning',
+        file: entry.file,
+        line: entry.line,
+        message: `\`--${entry.name}\` is deprecated and has no drop-in replacement`,
+        fix: REPLACED_FLAGS[entry.name]
+      });
+    }
+
+    issues.push(...checkInlineKey(entry));
+  }
+
+  issues.push(...checkConflicts(parsed.entries));
+
+  // A .bazelrc.user that was not read is where get-bazel-config tells users to put their keys.
+  const userImport = parsed.imports.find(i => !i.found && USER_BAZELRC.test(i.path));
+  for (const scope of getScopes(parsed.entries)) {
+    issues.push(...checkRemoteSettings(scope, userImport));
+  }
+
+  return dedupe(issues);
+}
+
+// Flags the target Bazel version rejects: not added yet, removed, or spelled differently.
+function checkFlagVersion(entry: BazelrcEntry, major: number): BazelrcIssue | undefined {
+  const reason = getUnsupportedReason(entry.name, major);
+  if (!reason) return undefined;
+
+  const spelling = getFlagSpelling(entry.name, major);
+  return {
+    severity: 'error',
+    file: entry.file,
+    line: entry.line,
+    message: `\`--${entry.name}\` is not accepted by Bazel ${major}: ${reason}`,
+    fix: spelling
+      ? `${getScopeKey(entry)} --${entry.negated ? 'no' : ''}${spelling}${entry.value !== undefined && !entry.negated ? `=${entry.value}` : ''}`
+      : 'Remove the line, or target a Bazel version that supports it'
+  };
+}
+
+function checkInlineKey(entry: BazelrcEntry): BazelrcIssue[] {
+  if (!['remote_header', 'remote_cache_header', 'bes_header'].includes(entry.name) || !entry.value) {
+    return [];
+  }
+
+  const [header, key] = entry.value.split('=', 2);
+  if (header.toLowerCase() !== API_KEY_HEADER || !key) {
+    return [];
+  }
+
+  if (/^YOUR_/.test(key)) {
+    return [{
+      severity: 'error',
+      file: entry.file,
+      line: entry.line,
+      message: `\`--${entry.name}\` still contains the placeholder \`${key}\``,
+      fix: 'Replace it with the API key from https://app.nativelink.com'
+    }];
+  }
+
+  if (!USER_BAZELRC.test(entry.file)) {
+    return [{
+      severity: 'warning',
+      file: entry.file,
+      line: entry.line,
+      message: 'API key is written inline in a file that is usually committed',
+      fix: 'Move this line to .bazelrc.user (gitignored) and add `try-import %workspace%/.bazelrc.user`'
+    }];
+  }
+
+  return [];
+}
+
+function checkConflicts(entries: BazelrcEntry[]): BazelrcIssue[] {
+  const issues: BazelrcIssue[] = [];
+  const seen = new Map<string, BazelrcEntry>();
+
+  for (const entry of entries) {
+    if (REPEATABLE_FLAGS.has(entry.name)) continue;
+
+    const key = `${getScopeKey(entry)}|${entry.name}`;
+    const previous = seen.get(key);
+    seen.set(key, entry);
+    if (!previous) continue;
+
+    if (previous.value === entry.value) {
+      issues.push({
+        severity: 'suggestion',
+        file: entry.file,
+        line: entry.line,
+        message: `\`--${entry.name}\` duplicates ${previous.file}:${previous.line}`,
+        fix: 'Remove the duplicate line'
+      });
+    } else {
+      issues.push({
+        severity: 'warning',
+        file: entry.file,
+        line: entry.line,
+        message: `\`--${entry.name}=${entry.value ?? 'true'}\` conflicts with \`--${previous.name}=${previous.value ?? 'true'}\` at ${previous.file}:${previous.line}; the later value wins`,
+        fix: 'Keep only the intended value, or move one of them under a named --config group'
+      });
+    }
+  }
+
+  return issues;
+}
+
+interface Scope {
+  name: string;
+  prefix: string;
+  flags: Map<string, BazelrcEntry[]>;
+}
+
+// Each --config group is checked together with the base flags it would be applied on top of.
+function getScopes(entries: BazelrcEntry[]): Scope[] {
+  const base = entries.filter(e => !e.config && BASE_COMMANDS.includes(e.command));
+  const configs = [...new Set(entries.filter(e => e.config).map(e => e.config!))];
+
+  return [
+    { name: 'build', prefix: 'build', flags: groupByName(base) },
+    ...configs.map(config => ({
+      name: `--config=${config}`,
+      prefix: `build:${config}`,
+      flags: groupByName([
+        ...base,
+        ...entries.filter(e => e.config === config && BASE_COMMANDS.includes(e.command))
+      ])
+    }))
+  ];
+}
+
+function groupByName(entries: BazelrcEntry[]): Map<string, BazelrcEntry[]> {
+  const flags = new Map<string, BazelrcEntry[]>();
+  for (const entry of entries) {
+    flags.set(entry.name, [...(flags.get(entry.name) || []), entry]);
+  }
+  return flags;
+}
+
+function checkRemoteSettings(scope: Scope, userImport?: BazelrcImport): BazelrcIssue[] {
+  const issues: BazelrcIssue[] = [];
+  const last = (name: string) => scope.flags.get(name)?.at(-1);
+  const has = (names: string[]) => names.some(name => scope.flags.has(name));
+
+  const remoteCache = last('remote_cache');
+  const remoteExecutor = last('remote_executor');
+  const besBackend = last('bes_backend');
+  const suffix = scope.name === 'build' ? '' : ` (with ${scope.name})`;
+
+  if (remoteCache?.value?.startsWith('grpcs://') && !has(HEADER_FLAGS)) {
+    issues.push(userImport
+      ? noteUserCredentials(remoteCache, userImport, 'remote_header', suffix)
+      : {
+        // Keys may still come from the command line or ~/.bazelrc, which this check cannot see.
+        severity: 'warning',
+        file: remoteCache.file,
+        line: remoteCache.line,
+        message: `\`--remote_cache\` uses grpcs:// but no \`--remote_header\`, \`--credential_helper\` or client certificate is set${suffix}; requests will be rejected unless the key is passed on the command line`,
+        fix: `Add \`build --remote_header=${API_KEY_HEADER}=<key>\` to .bazelrc.user`
+      });
+  }
+
+  if (besBackend?.value?.startsWith('grpcs://') && !has(BES_HEADER_FLAGS)) {
+    issues.push(userImport
+      ? noteUserCredentials(besBackend, userImport, 'bes_header', suffix)
+      : {
+        severity: 'warning',
+        file: besBackend.file,
+        line: besBackend.line,
+        message: `\`--bes_backend\` uses grpcs:// but no \`--bes_header\` is set${suffix}; events will be rejected unless the key is passed on the command line`,
+        fix: `Add \`build --bes_header=${API_KEY_HEADER}=<key>\` to .bazelrc.user`
+      });
+  }
+
+  if (remoteExecutor?.value && !remoteCache) {
+    issues.push({
+      severity: 'warning',
+      file: remoteExecutor.file,
+      line: remoteExecutor.line,
+      message: `\`--remote_executor\` is set without \`--remote_cache\`${suffix}`,
+      fix: `${scope.prefix} --remote_cache=${remoteExecutor.value.replace(/:443$/, '')}`
+    });
+  }
+
+  if (remoteExecutor?.value && !scope.flags.has('remote_download_outputs')) {
+    issues.push({
+      severity: 'suggestion',
+      file: remoteExecutor.file,
+      line: remoteExecutor.line,
+      message: `Remote execution without \`--remote_download_outputs\`${suffix} downloads every intermediate output`,
+      fix: `${scope.prefix} --remote_download_minimal`
+    });
+  }
+
+  if ((remoteCache || remoteExecutor) && !scope.flags.has('incompatible_strict_action_env')) {
+    const anchor = (remoteCache || remoteExecutor)!;
+    issues.push({
+      severity: 'suggestion',
+      file: anchor.file,
+      line: anchor.line,
+      message: `Remote caching without \`--incompatible_strict_action_env\`${suffix} lets PATH and other env vars leak into cache keys`,
+      fix: `${scope.prefix} --incompatible_strict_action_env`
+    });
+  }
+
+  if (remoteExecutor && !scope.flags.has('remote_timeout')) {
+    issues.push({
+      severity: 'suggestion',
+      file: remoteExecutor.file,
+      line: remoteExecutor.line,
+      message: `No \`--remote_timeout\` is set${suffix}; long remote actions may time out with the default`,
+      fix: `${scope.prefix} --remote_timeout=600`
+    });
+  }
+
+  return issues;
+}
+
+function noteUserCredentials(entry: BazelrcEntry, userImport: BazelrcImport, header: string, suffix: string): BazelrcIssue {
+  return {
+    severity: 'note',
+    file: entry.file,
+    line: entry.line,
+    message: `\`--${entry.name}\` gets its credentials from \`${userImport.path}\` (${userImport.file}:${userImport.line}), which was not checked${suffix}`,
+    fix: `Make sure it sets \`build --${header}=${API_KEY_HEADER}=<key>\``
+  };
+}
+
+function dedupe(issues: BazelrcIssue[]): BazelrcIssue[] {
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = `${issue.file}:${issue.line}:${issue.message.replace(/ \(with --config=[^)]+\)/, '')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function formatIssues(issues: BazelrcIssue[], parsed: ParsedBazelrc): string {
+  const count = (severity: IssueSeverity) => issues.filter(i => i.severity === severity).length;
+  const errors = count('error');
+
+  const lines: string[] = [
+    '# .bazelrc Validation',
+    '',
+    `**Result:** ${errors === 0 ? '✅ Valid' : '❌ Invalid'} (${errors} errors, ${count('warning')} warnings, ${count('suggestion')} suggestions, ${count('note')} notes)`,
+    `Checked ${parsed.entries.length} flags${parsed.imports.length > 0 ? ` and ${parsed.imports.length} imports` : ''}.`,
+    ''
+  ];
+
+  const unresolved = parsed.imports.filter(i => !i.resolved);
+  if (unresolved.length > 0) {
+    lines.push(
+      `_${unresolved.length} import(s) using %workspace% were not followed. Pass \`workspacePath\` to include them._`,
+      ''
+    );
+  }
+
+  const sections: [IssueSeverity, string][] = [
+    ['error', 'Errors'],
+    ['warning', 'Warnings'],
+    ['suggestion', 'Suggestions'],
+    ['note', 'Notes']
+  ];
+
+  for (const [severity, title] of sections) {
+    const matching = issues.filter(i => i.severity === severity);
+    if (matching.length === 0) continue;
+
+    lines.push(`## ${title}`, '');
+    for (const issue of matching.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)) {
+      lines.push(`- \`${issue.file}:${issue.line}\` ${issue.message}`);
+      if (issue.fix) {
+        lines.push(`  - Fix: ${formatFix(issue.fix)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  if (issues.length === 0) {
+    lines.push('No issues found.');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+// Fixes are either a literal .bazelrc line (lowercase command first) or a prose hint.
+function formatFix(fix: string): string {
+  return /^[A-Z]/.test(fix) ? fix : `\`${fix}\``;
+}
\ No newline at end of file
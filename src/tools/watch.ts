@@ -1,16 +1,24 @@
 import { z } from 'zod';
+import type { ToolDefinition } from '../lib/types.js';
 
 export const SetupWatchAndBuildSchema = z.object({
-  command: z.enum(['build', 'test', 'both']).default('both'),
-  targets: z.string().default('//...'),
-  watchPaths: z.array(z.string()).optional(),
-  excludePaths: z.array(z.string()).optional(),
-  debounceMs: z.number().min(100).max(10000).default(1000),
-  useIbazel: z.boolean().default(false)
+  command: z.enum(['build', 'test', 'both']).default('both').describe('What to run on file changes (default: both)'),
+  targets: z.string().default('//...').describe('Bazel targets to build/test (default: //...)'),
+  watchPaths: z.array(z.string()).optional().describe('Paths/patterns to watch for changes'),
+  excludePaths: z.array(z.string()).optional().describe('Paths/patterns to exclude from watching'),
+  debounceMs: z.number().min(100).max(10000).default(1000).describe('Milliseconds to wait before rebuilding (100-10000, default: 1000)'),
+  useIbazel: z.boolean().default(false).describe('Use iBazel for intelligent watching (recommended)')
 });
 
 export type SetupWatchAndBuildParams = z.infer<typeof SetupWatchAndBuildSchema>;
 
+export const setupWatchAndBuildTool: ToolDefinition<typeof SetupWatchAndBuildSchema> = {
+  name: 'setup-watch-and-build',
+  description: 'Set up automatic Bazel builds and tests on file changes with Nativelink',
+  schema: SetupWatchAndBuildSchema,
+  handler: params => setupWatchAndBuild(params)
+};
+
 export function setupWatchAndBuild(params: SetupWatchAndBuildParams): string {
   const command = params.command || 'both';
   const targets = params.targets || '//...';
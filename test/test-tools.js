@@ -4,6 +4,31 @@ import { generateBazelConfig } from '../dist/tools/config.js';
 import { generateDeploymentConfig } from '../dist/tools/deployment.js';
 import { analyzeBuildPerformance } from '../dist/tools/performance.js';
 import { NativelinkAPI } from '../dist/lib/api.js';
+import { ApiClient } from '../dist/lib/http.js';
+import { ApiAuthError } from '../dist/lib/errors.js';
+import { parseBazelProfile } from '../dist/lib/profile.js';
+import { analyzeCacheMisses } from '../dist/tools/execlog.js';
+import { readBuildEvents, summarizeBuildEvents, toBuildMetrics } from '../dist/lib/bep.js';
+import { validateBazelrc } from '../dist/tools/validate.js';
+import { TOOLS } from '../dist/tools/index.js';
+import { toToolInputSchema } from '../dist/lib/json-schema.js';
+import { PROMPTS, findPrompt } from '../dist/prompts/index.js';
+import { listDocResources } from '../dist/resources/index.js';
+import { searchNativelinkDocs } from '../dist/tools/search.js';
+import { analyzeBuildTrends, AnalyzeBuildTrendsSchema } from '../dist/tools/trends.js';
+import { MetricsHistory } from '../dist/lib/history.js';
+import { compareBuilds, CompareBuildsSchema } from '../dist/tools/compare.js';
+import { generateRemotePlatform, GenerateRemotePlatformSchema } from '../dist/tools/platform.js';
+import { generateCiConfig, GenerateCiConfigSchema } from '../dist/tools/ci.js';
+import { redactSecrets } from '../dist/lib/utils.js';
+import { resolveApiKey, storeKeyringKey } from '../dist/lib/credentials.js';
+import { applyProfileDefaults, getProfile, loadConfigFile } from '../dist/lib/profiles.js';
+import { gzipSync } from 'zlib';
+import { createServer, request } from 'http';
+import { spawn, spawnSync } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 console.log('Testing Nativelink MCP Server Tools...\n');
 
@@ -21,6 +46,17 @@ function test(name, fn) {
   }
 }
 
+async function testAsync(name, fn) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+    passed++;
+  } catch (error) {
+    console.log(`❌ ${name}: ${error.message}`);
+    failed++;
+  }
+}
+
 // Test Bazel config generation
 test('Generate Bazel config for Rust project', () => {
   const config = generateBazelConfig({
@@ -36,6 +72,63 @@ test('Generate Bazel config for Rust project', () => {
   }
 });
 
+test('Generate a remote execution platform and reuse detected toolchains', () => {
+  const workspace = mkdtempSync(join(tmpdir(), 'nativelink-platform-'));
+  writeFileSync(join(workspace, 'MODULE.bazel'), [
+    'bazel_dep(name = "rules_go", version = "0.50.1", repo_name = "io_bazel_rules_go")',
+    'bazel_dep(name = "hermetic_cc_toolchain", version = "3.1.0")'
+  ].join('\n'));
+  writeFileSync(join(workspace, '.bazelversion'), '6.5.0');
+
+  const output = generateRemotePlatform(GenerateRemotePlatformSchema.parse({
+    workspacePath: workspace,
+    containerImage: 'docker://ghcr.io/example/worker@sha256:abc',
+    cpu: 'aarch64'
+  }));
+
+  for (const expected of [
+    '"container-image": "docker://ghcr.io/example/worker@sha256:abc"',
+    '"@platforms//cpu:aarch64"',
+    'build --extra_execution_platforms=//platforms:nativelink_remote',
+    'build --incompatible_enable_cc_toolchain_resolution',
+    'build --repo_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN=1',
+    'go_sdk = use_extension("@io_bazel_rules_go//go:extensions.bzl", "go_sdk")',
+    'hermetic_cc_toolchain already provides a hermetic toolchain'
+  ]) {
+    if (!output.includes(expected)) {
+      throw new Error(`Missing ${expected}:\n${output}`);
+    }
+  }
+  if (output.includes('bazel_dep(name = "rules_go"') || output.includes('toolchains_llvm')) {
+    throw new Error('Should not add rulesets the workspace already has');
+  }
+  if (output.includes('--action_env=BAZEL_DO_NOT_DETECT_CPP_TOOLCHAIN')) {
+    throw new Error('The toolchain detection switch belongs in the repository environment, not every action key');
+  }
+});
+
+test('Generate CI pipelines that read the API key from secrets', () => {
+  const github = generateCiConfig(GenerateCiConfigSchema.parse({ provider: 'github', features: ['remote_cache', 'bes', 'metrics'] }));
+  for (const expected of [
+    'NATIVELINK_API_KEY: ${{ secrets.NATIVELINK_API_KEY }}',
+    'bazel --bazelrc="$NATIVELINK_RC" test \\',
+    '--config=nativelink \\',
+    '--remote_download_minimal \\',
+    '--bes_results_url=https://app.nativelink.com/a/YOUR_BUILD_ID/build \\',
+    '--execution_log_json_file=ci-artifacts/exec.json \\',
+    'uses: actions/upload-artifact@v4'
+  ]) {
+    if (!github.includes(expected)) {
+      throw new Error(`Missing ${expected}:\n${github}`);
+    }
+  }
+
+  const buildkite = generateCiConfig(GenerateCiConfigSchema.parse({ provider: 'buildkite', nativelinkUrl: 'grpc://nativelink.internal:50051' }));
+  if (buildkite.includes('--remote_header') || buildkite.includes('--bes_results_url') || !buildkite.includes('|| status=$$?')) {
+    throw new Error('Self-hosted pipelines need no headers, and Buildkite needs $$ for runtime variables');
+  }
+});
+
 test('Generate Bazel config for Python project', () => {
   const config = generateBazelConfig({
     projectType: 'python',
@@ -47,6 +140,228 @@ test('Generate Bazel config for Python project', () => {
   }
 });
 
+test('Generate Bazel config from a detected workspace', () => {
+  const workspace = mkdtempSync(join(tmpdir(), 'nativelink-ws-'));
+  writeFileSync(join(workspace, 'MODULE.bazel'), [
+    'module(name = "demo")',
+    'bazel_dep(name = "rules_rust", version = "0.40.0")',
+    'bazel_dep(name = "rules_go", version = "0.46.0")'
+  ].join('\n'));
+  writeFileSync(join(workspace, '.bazelversion'), '7.1.0\n');
+
+  const config = generateBazelConfig({ workspacePath: workspace });
+
+  if (!config.includes('# Bazel version: 7.1.0')) {
+    throw new Error('Missing detected Bazel version');
+  }
+  if (!config.includes('rust/settings') || !config.includes('@rules_go//go/config:race')) {
+    throw new Error('Should combine Rust and Go flags using the Bzlmod repo names');
+  }
+});
+
+test('Generate Bazel config with Bazel 6 flag spellings', () => {
+  const config = generateBazelConfig({
+    projectType: 'cpp',
+    bazelVersion: '6.5.0'
+  });
+
+  if (!config.includes('build --experimental_remote_cache_compression')) {
+    throw new Error('Bazel 6 should use --experimental_remote_cache_compression');
+  }
+  if (!config.includes('renamed in 7')) {
+    throw new Error('Should explain why the legacy spelling is used');
+  }
+});
+
+test('Bazel 8 targets drop legacy flag spellings that Bazel 7 still accepts', () => {
+  const workspace = mkdtempSync(join(tmpdir(), 'nativelink-ws8-'));
+  writeFileSync(join(workspace, 'WORKSPACE'), 'workspace(name = "legacy")\n');
+
+  const config7 = generateBazelConfig({ projectType: 'cpp', workspacePath: workspace, bazelVersion: '7.4.1' });
+  const config8 = generateBazelConfig({ projectType: 'cpp', workspacePath: workspace, bazelVersion: '8.0.0' });
+  if (config7.includes('--enable_workspace') || !config8.includes('common --enable_workspace')) {
+    throw new Error('Only Bazel 8 should need --enable_workspace for a WORKSPACE project');
+  }
+
+  const bazelrc = 'build --experimental_remote_cache_compression\n';
+  const on6 = validateBazelrc({ bazelrc, bazelVersion: '6.5.0' });
+  const on7 = validateBazelrc({ bazelrc, bazelVersion: '7.4.1' });
+  const on8 = validateBazelrc({ bazelrc, bazelVersion: '8.0.0' });
+  if (on6.includes('experimental_remote_cache_compression`')) {
+    throw new Error(`Bazel 6 only knows the legacy spelling: ${on6}`);
+  }
+  if (!on7.includes('is deprecated') || on7.includes('not accepted')) {
+    throw new Error(`Bazel 7 should keep the legacy spelling with a deprecation warning: ${on7}`);
+  }
+  if (!on8.includes('not accepted by Bazel 8: removed in Bazel 8') || !on8.includes('`build --remote_cache_compression`')) {
+    throw new Error(`Bazel 8 should reject the legacy spelling and rewrite it: ${on8}`);
+  }
+});
+
+test('Generate Bazel config for a self-hosted cluster', () => {
+  const config = generateBazelConfig({
+    projectType: 'cpp',
+    nativelinkUrl: 'nativelink.corp.example:443',
+    tlsCertificate: '/etc/ssl/corp-ca.pem',
+    tlsClientCertificate: 'client.pem',
+    tlsClientKey: 'client.key'
+  });
+
+  if (!config.includes('build --remote_cache=grpcs://nativelink.corp.example:443')) {
+    throw new Error('Should use the custom endpoint with grpcs');
+  }
+  if (!config.includes('build --remote_instance_name=main')) {
+    throw new Error('Should default to the main instance name');
+  }
+  if (!config.includes('build --tls_client_key=client.key') || !config.includes('build --tls_certificate=/etc/ssl/corp-ca.pem')) {
+    throw new Error('Missing TLS flags');
+  }
+  if (config.includes('nativelink.net') || config.includes('x-nativelink-api-key')) {
+    throw new Error('Self-hosted config should not reference NativeLink Cloud');
+  }
+});
+
+test('Merge Bazel config into an existing .bazelrc', () => {
+  const existing = [
+    'build --jobs=50',
+    'build --incompatible_strict_action_env',
+    'build --remote_cache=grpc://old-cache:9092',
+    ''
+  ].join('\n');
+  const merged = generateBazelConfig({ projectType: 'cpp', existingBazelrc: existing });
+
+  if (!merged.startsWith(existing)) {
+    throw new Error('Existing lines should be kept unchanged');
+  }
+  if (!merged.includes('build:nativelink --remote_cache=grpcs://')) {
+    throw new Error('NativeLink settings should go under build:nativelink');
+  }
+  if (merged.includes('build:nativelink --jobs')) {
+    throw new Error('User override of --jobs should be kept');
+  }
+  if (merged.includes('build:nativelink --incompatible_strict_action_env')) {
+    throw new Error('Duplicate flags should not be repeated');
+  }
+
+  const rerun = generateBazelConfig({ projectType: 'cpp', existingBazelrc: merged, outputFormat: 'diff' });
+  if (rerun.includes('+++')) {
+    throw new Error('Merging twice should not change the file');
+  }
+
+  const workspace = mkdtempSync(join(tmpdir(), 'nativelink-diff-'));
+  writeFileSync(join(workspace, '.bazelrc'), 'build --jobs=8\n');
+  const patch = generateBazelConfig({ projectType: 'cpp', existingBazelrcPath: join(workspace, '.bazelrc'), outputFormat: 'diff' });
+  if (!patch.startsWith('--- a/.bazelrc\n+++ b/.bazelrc\n')) {
+    throw new Error(`Diff paths should be relative to the workspace:\n${patch.split('\n', 2).join('\n')}`);
+  }
+  const apply = spawnSync('git', ['apply', '--check', '-'], { cwd: workspace, input: patch, encoding: 'utf8' });
+  if (apply.status !== 0) {
+    throw new Error(`git apply should accept the diff: ${apply.stderr}`);
+  }
+});
+
+test('Generated configs keep API keys out and responses redact them', () => {
+  const headerFlag = /^build(:nativelink)? --(remote|bes)_header=x-nativelink-api-key=/m;
+  const config = generateBazelConfig({ projectType: 'rust' });
+  if (headerFlag.test(config) || !config.trimEnd().endsWith('try-import %workspace%/.bazelrc.user')) {
+    throw new Error('Keys should go in .bazelrc.user, not the generated config');
+  }
+
+  const helper = generateBazelConfig({ projectType: 'rust', credentials: 'credential-helper', existingBazelrc: 'build --jobs=8\n' });
+  if (headerFlag.test(helper) || !helper.includes('build:nativelink --credential_helper=*.nativelink.net=nativelink-credential-helper')) {
+    throw new Error('Credential helper mode should register the helper');
+  }
+
+  const key = 'nl_live_0123456789abcdef';
+  const redacted = redactSecrets({ text: `key ${key}`, structuredContent: { nested: [key] } }, [key, undefined]);
+  if (redacted.text !== 'key <redacted>' || redacted.structuredContent.nested[0] !== '<redacted>') {
+    throw new Error('Keys should be redacted from text and structured content');
+  }
+});
+
+test('Credential helper resolves keys per endpoint from env, file and keyring', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'nativelink-credentials-'));
+  const credentialsFile = join(dir, 'credentials.json');
+  const keyringDir = join(dir, 'keyring');
+  writeFileSync(credentialsFile, JSON.stringify({ bes: 'file-bes-key', hosts: { 'cache.internal': 'file-host-key' } }));
+  storeKeyringKey(keyringDir, 'default', 'keyring-default-key');
+
+  const cas = 'https://cas-acme.build-faster.nativelink.net';
+  const bes = 'https://bes-acme.build-faster.nativelink.net';
+  const resolve = (uri, env = {}) => resolveApiKey(uri, { env, credentialsFile, keyringDir });
+  if (resolve(cas, { NATIVELINK_API_KEY: 'env-key' })?.key !== 'env-key' ||
+      resolve(bes)?.key !== 'file-bes-key' ||
+      resolve('https://cache.internal')?.key !== 'file-host-key' ||
+      resolve(cas)?.source !== 'keyring') {
+    throw new Error('Keys should come from env, then the credentials file, then the keyring');
+  }
+  if (resolve('https://cache.internal', { NATIVELINK_API_KEY: 'env-key' })?.key !== 'file-host-key' ||
+      resolve(bes, { NATIVELINK_API_KEY: 'env-key' })?.key !== 'env-key') {
+    throw new Error('A host entry should beat env vars, which beat the file\'s endpoint and default keys');
+  }
+
+  const get = (stdin, extraEnv = {}) => spawnSync(process.execPath, [
+    'dist/credential-helper.js', '--credentials-file', credentialsFile, '--keyring-dir', keyringDir, 'get'
+  ], { input: stdin, encoding: 'utf-8', env: { PATH: process.env.PATH, ...extraEnv } });
+  const ok = get(JSON.stringify({ uri: bes }), { NATIVELINK_BES_API_KEY: 'env-bes-key' });
+  if (ok.status !== 0 || JSON.parse(ok.stdout).headers['x-nativelink-api-key'][0] !== 'env-bes-key') {
+    throw new Error(`Helper should print the header, got: ${ok.stdout}${ok.stderr}`);
+  }
+
+  writeFileSync(credentialsFile, JSON.stringify({ apikey: 'typo' }));
+  const invalid = get(JSON.stringify({ uri: cas }));
+  if (invalid.status !== 1 || !invalid.stderr.includes('Invalid credentials file')) {
+    throw new Error('An invalid credentials file should fail with a clear message');
+  }
+});
+
+test('Config file profiles load from TOML and fill in tool defaults', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'nativelink-config-'));
+  const file = join(dir, 'config.toml');
+  writeFileSync(file, [
+    'defaultProfile = "cloud"',
+    '',
+    '[profiles.cloud]',
+    'apiKey = "cloud-key" # from app.nativelink.com',
+    'projectType = "rust"',
+    '',
+    '[profiles.self-hosted-prod]',
+    'docsSource = \'bundled\'',
+    'targetOptimization = "cost"',
+    '[profiles.self-hosted-prod.endpoints]',
+    'nativelinkUrl = "grpcs://nativelink.internal:443"'
+  ].join('\n'));
+
+  const loaded = loadConfigFile(file);
+  const prod = getProfile(loaded, 'self-hosted-prod');
+  if (loaded.config.defaultProfile !== 'cloud' || getProfile(loaded, 'cloud').apiKey !== 'cloud-key' || prod.docsSource !== 'bundled') {
+    throw new Error('Profiles should be read from the TOML file');
+  }
+  const args = applyProfileDefaults({ features: ['remote_cache'] }, prod, ['projectType', 'nativelinkUrl', 'features']);
+  if (args.nativelinkUrl !== 'grpcs://nativelink.internal:443' || 'targetOptimization' in args) {
+    throw new Error('Only arguments the tool accepts should be filled in');
+  }
+  if (applyProfileDefaults({ casUrl: 'grpc://cache:50051' }, prod, ['nativelinkUrl', 'casUrl']).nativelinkUrl) {
+    throw new Error('Endpoints given in the call should not be mixed with the profile\'s');
+  }
+
+  const invalid = join(dir, 'config.json');
+  const errorFor = config => {
+    writeFileSync(invalid, JSON.stringify(config));
+    try {
+      loadConfigFile(invalid);
+    } catch (error) {
+      return error.message;
+    }
+    return '';
+  };
+  const badField = errorFor({ profiles: { cloud: { projectType: 'ruby' } } });
+  const badDefault = errorFor({ defaultProfile: 'staging', profiles: { cloud: {} } });
+  if (!badField.includes('profiles.cloud.projectType') || !badDefault.includes('defaultProfile: defaultProfile must name one of the profiles')) {
+    throw new Error(`Validation errors should name the field, got: ${badField} ${badDefault}`);
+  }
+});
+
 // Test deployment config generation
 test('Generate Kubernetes deployment', () => {
   const config = generateDeploymentConfig({
@@ -63,6 +378,61 @@ test('Generate Kubernetes deployment', () => {
   }
 });
 
+test('Kubernetes deployment includes config.json5 ConfigMap', () => {
+  const config = generateDeploymentConfig({
+    platform: 'kubernetes',
+    scale: 'large',
+    features: ['monitoring']
+  });
+
+  if (!config.includes('kind: ConfigMap') || !config.includes('config.json5: |')) {
+    throw new Error('Missing nativelink-config ConfigMap');
+  }
+  if (!config.includes('"CAS_MAIN_STORE"') || !config.includes('"MAIN_SCHEDULER"')) {
+    throw new Error('Missing stores or schedulers in config.json5');
+  }
+});
+
+test('Kubernetes deployment scales workers around one scheduler with persistent stores', () => {
+  const config = generateDeploymentConfig({
+    platform: 'kubernetes',
+    scale: 'medium',
+    features: ['autoscaling']
+  });
+  const [scheduler, worker] = config.split('kind: Deployment').slice(1);
+
+  if (!scheduler.includes('replicas: 1') || !worker.includes('name: nativelink-worker') || !worker.includes('replicas: 3')) {
+    throw new Error('The scheduler should run once and only the workers should scale');
+  }
+  if (!config.includes('name: nativelink-worker\n  minReplicas: 3') || !config.includes('claimName: nativelink-data') || !config.includes('kind: PersistentVolumeClaim')) {
+    throw new Error('The HPA should target the workers and the filesystem stores need a volume');
+  }
+  const [schedulerConfig, workerConfig] = config.split('kind: ConfigMap').slice(1);
+  if (schedulerConfig.includes('"workers"') || !workerConfig.includes('grpc://nativelink-internal:50061') || !workerConfig.includes('"store_type": "cas"')) {
+    throw new Error('Workers should run apart from the scheduler and use its stores');
+  }
+
+  const s3 = generateDeploymentConfig({ platform: 'kubernetes', scale: 'medium', storageBackend: 's3' });
+  if (s3.includes('PersistentVolumeClaim')) {
+    throw new Error('Object storage needs no volume');
+  }
+});
+
+test('AWS deployment uses S3 store with compression', () => {
+  const config = generateDeploymentConfig({
+    platform: 'aws',
+    scale: 'small',
+    bucket: 'my-cas'
+  });
+
+  if (!config.includes('"provider": "aws"') || !config.includes('"bucket": "my-cas"')) {
+    throw new Error('Missing S3 store');
+  }
+  if (!config.includes('"lz4"')) {
+    throw new Error('Missing compression wrapper');
+  }
+});
+
 test('Generate Docker Compose config', () => {
   const config = generateDeploymentConfig({
     platform: 'docker',
@@ -79,9 +449,9 @@ test('Generate Docker Compose config', () => {
 });
 
 // Test performance analysis
-test('Analyze build performance with low cache hit rate', async () => {
+await testAsync('Analyze build performance with low cache hit rate', async () => {
   const api = new NativelinkAPI({});
-  const analysis = await analyzeBuildPerformance({
+  const { text: analysis } = await analyzeBuildPerformance({
     metrics: {
       cacheHitRate: 0.3,
       totalTime: 300
@@ -94,9 +464,9 @@ test('Analyze build performance with low cache hit rate', async () => {
   }
 });
 
-test('Generate cost-optimized recommendations', async () => {
+await testAsync('Generate cost-optimized recommendations', async () => {
   const api = new NativelinkAPI({});
-  const analysis = await analyzeBuildPerformance({
+  const { text: analysis } = await analyzeBuildPerformance({
     metrics: {
       networkTransferSize: 1024 * 1024 * 1000
     },
@@ -108,14 +478,732 @@ test('Generate cost-optimized recommendations', async () => {
   }
 });
 
+await testAsync('Estimate monthly cost and the saving from each flag', async () => {
+  const api = new NativelinkAPI({});
+  const { text, structuredContent } = await analyzeBuildPerformance({
+    metrics: { remoteExecutionTime: 3600, bytesDownloaded: 1024 ** 3, bytesUploaded: 0 },
+    targetOptimization: 'cost',
+    priceSheet: { name: 'Test', monthlyBase: 10, remoteExecutionHour: 0.1, transferGB: 1, storageGBMonth: 0 },
+    buildsPerMonth: 100
+  }, api);
+
+  const { costEstimate } = structuredContent;
+  if (costEstimate.monthlyCost !== 120 || costEstimate.usage.remoteExecutionHours !== 100 || costEstimate.usage.transferGB !== 100) {
+    throw new Error(`Unexpected estimate: ${JSON.stringify(costEstimate)}`);
+  }
+  const minimal = costEstimate.flagEffects.find(effect => effect.flag === '--remote_download_minimal');
+  if (!minimal || minimal.change !== -70 || !text.includes('build --remote_download_minimal  # saves ~$70.00/month')) {
+    throw new Error('Should price the effect of --remote_download_minimal and rank it first');
+  }
+  if (costEstimate.placeholderRates || text.includes('Placeholder rates')) {
+    throw new Error('Custom price sheets are not placeholders');
+  }
+
+  const defaults = await analyzeBuildPerformance({ metrics: { remoteExecutionTime: 60 }, targetOptimization: 'cost' }, api);
+  if (!defaults.structuredContent.costEstimate.placeholderRates || !defaults.text.includes('Placeholder rates')) {
+    throw new Error('The built-in cloud sheets should be labelled as placeholder rates');
+  }
+});
+
+await testAsync('Performance analysis returns scores and suggested flags as structured content', async () => {
+  const api = new NativelinkAPI({});
+  const { structuredContent } = await analyzeBuildPerformance({
+    metrics: {
+      cacheHitRate: 0.4,
+      remoteExecutionTime: 30,
+      localExecutionTime: 90,
+      networkTransferSize: 1024 * 1024 * 1000
+    },
+    bazelVersion: '6.4.0'
+  }, api);
+  const { score, suggestedFlags, source } = structuredContent;
+
+  if (source !== 'local' || score.cacheEfficiency !== 40 || score.parallelization !== 25 || score.networkUsage !== 50) {
+    throw new Error(`Unexpected scores: ${JSON.stringify(score)}`);
+  }
+  if (score.overall !== Math.round(40 * 0.5 + 50 * 0.2 + 25 * 0.3)) {
+    throw new Error(`Overall score should weight the sub-scores, got ${score.overall}`);
+  }
+  const flags = suggestedFlags.map(s => s.flag);
+  if (!flags.includes('--incompatible_strict_action_env') || !flags.includes('--experimental_remote_cache_compression')) {
+    throw new Error(`Flags should target weak areas in Bazel 6 spelling: ${flags.join(', ')}`);
+  }
+  if (suggestedFlags.some(s => !s.rationale)) {
+    throw new Error('Every suggested flag needs a rationale');
+  }
+
+  const perfTool = TOOLS.find(tool => tool.name === 'analyze-build-performance');
+  const outputSchema = toToolInputSchema(perfTool.outputSchema);
+  if (!outputSchema.properties.score || !outputSchema.required.includes('suggestedFlags')) {
+    throw new Error('The tool should declare an output schema');
+  }
+});
+
+// Test profile parsing
+const sampleProfile = JSON.stringify({
+  otherData: { build_id: 'test' },
+  traceEvents: [
+    { name: 'Launch Blaze', cat: 'build phase marker', ph: 'i', ts: 0, pid: 1, tid: 1 },
+    { name: 'Load and analyze dependencies', cat: 'build phase marker', ph: 'i', ts: 1000000, pid: 1, tid: 1 },
+    { name: 'Build artifacts', cat: 'build phase marker', ph: 'i', ts: 3000000, pid: 1, tid: 1 },
+    { name: 'Compiling a.cc', cat: 'action processing', ph: 'X', ts: 3000000, dur: 4000000, pid: 1, tid: 2, args: { mnemonic: 'CppCompile', target: '//:a' } },
+    { name: 'execute remotely', cat: 'remote action execution', ph: 'X', ts: 3100000, dur: 3800000, pid: 1, tid: 2 },
+    { name: 'Linking a', cat: 'action processing', ph: 'X', ts: 7000000, dur: 1000000, pid: 1, tid: 3, args: { mnemonic: 'CppLink', target: '//:a' } },
+    { name: 'check cache hit', cat: 'remote action cache check', ph: 'X', ts: 7000000, dur: 500000, pid: 1, tid: 3 },
+    { name: "action 'Compiling a.cc'", cat: 'critical path component', ph: 'X', ts: 3000000, dur: 4000000, pid: 1, tid: 4 }
+  ]
+});
+
+test('Parse Bazel JSON trace profile', () => {
+  const summary = parseBazelProfile(sampleProfile);
+
+  if (summary.actionCount !== 2) {
+    throw new Error(`Expected 2 actions, got ${summary.actionCount}`);
+  }
+  if (summary.criticalPath.duration !== 4) {
+    throw new Error('Critical path duration should be 4s');
+  }
+  if (summary.mnemonics[0].mnemonic !== 'CppCompile') {
+    throw new Error('CppCompile should dominate mnemonic timings');
+  }
+  if (summary.spawns.remote !== 1 || summary.spawns.cacheHit !== 1) {
+    throw new Error('Should classify one remote spawn and one cache hit');
+  }
+  if (summary.phases.find(p => p.name === 'Build artifacts')?.group !== 'execution') {
+    throw new Error('Build artifacts should map to the execution phase');
+  }
+});
+
+test('Parse gzipped base64 profile', () => {
+  const encoded = gzipSync(Buffer.from(sampleProfile)).toString('base64');
+  const summary = parseBazelProfile(encoded);
+
+  if (summary.totalTime !== 8) {
+    throw new Error(`Expected 8s wall time, got ${summary.totalTime}`);
+  }
+});
+
+// Test execution log comparison
+test('Analyze cache misses between execution logs', () => {
+  const spawn = (envValue, hash, hit) => JSON.stringify({
+    commandArgs: ['gcc', '-c', 'a.cc'],
+    environmentVariables: [{ name: 'PATH', value: envValue }],
+    inputs: [{ path: 'a.cc', digest: { hash } }],
+    listedOutputs: ['bazel-out/k8-fastbuild/bin/a.o'],
+    mnemonic: 'CppCompile',
+    targetLabel: '//:a',
+    remoteCacheHit: hit
+  }, null, 2);
+
+  const report = analyzeCacheMisses({
+    baselineLog: spawn('/usr/bin', 'abc', false),
+    candidateLog: spawn('/home/me/bin:/usr/bin', 'abc', false) + '\n' + spawn('/usr/bin', 'abc', true),
+    onlyMisses: true,
+    maxActions: 20
+  });
+
+  if (!report.includes('`PATH`')) {
+    throw new Error('Should report the differing PATH variable');
+  }
+  if (!report.includes('incompatible_strict_action_env')) {
+    throw new Error('Should suggest strict action env');
+  }
+
+  const insertedFlag = (args, hit) => JSON.stringify({
+    commandArgs: args, listedOutputs: [`bazel-out/${hit ? 'hit' : 'miss'}.o`], mnemonic: 'CppCompile', targetLabel: '//:b', remoteCacheHit: hit
+  });
+  const withHits = analyzeCacheMisses({
+    baselineLog: insertedFlag(['gcc', '-c', 'b.cc', '-o', 'b.o'], false) + '\n' + insertedFlag(['gcc', '-O1'], true),
+    candidateLog: insertedFlag(['gcc', '-g', '-c', 'b.cc', '-o', 'b.o'], false) + '\n' + insertedFlag(['gcc', '-O2'], true),
+    onlyMisses: false,
+    maxActions: 20
+  });
+  const missSection = withHits.split('## Cache Hits With Different Inputs')[0];
+  if (!missSection.includes('`-g` added') || missSection.includes('b.cc` →') || missSection.includes('-O2')) {
+    throw new Error('An inserted flag should be one difference, and hits should not be listed as misses');
+  }
+  if (!withHits.includes('- Cache hits with different inputs: 1') || !withHits.includes('`-O1` → `-O2`')) {
+    throw new Error('Hits with different inputs should get their own section');
+  }
+
+  const longArgs = prefix => ['ld', ...Array.from({ length: 3000 }, (_, i) => `${prefix}${i}.o`), '-o', 'b'];
+  const long = analyzeCacheMisses({
+    baselineLog: insertedFlag(longArgs('old/'), false),
+    candidateLog: insertedFlag(longArgs('new/'), false)
+  });
+  if (!long.includes('`old/0.o` → `new/0.o`') || !long.includes('and 2985 more differences')) {
+    throw new Error('Long command lines should fall back to comparing argument sets');
+  }
+});
+
+// Test BEP ingestion
+test('Summarize build event file', () => {
+  const events = [
+    { id: { started: {} }, started: { uuid: 'abc-123', startTimeMillis: '1000', command: 'build' } },
+    { id: { optionsParsed: {} }, optionsParsed: { cmdLine: ['--bes_results_url=https://app.nativelink.com/a/x/build/'] } },
+    { id: { testSummary: { label: '//:flaky_test' } }, testSummary: { overallStatus: 'FLAKY' } },
+    { id: { targetCompleted: { label: '//:broken' } }, completed: { success: false } },
+    {
+      id: { buildMetrics: {} },
+      buildMetrics: {
+        actionSummary: {
+          actionsExecuted: '10',
+          runnerCount: [
+            { name: 'total', count: 10 },
+            { name: 'remote cache hit', count: 6 },
+            { name: 'remote', count: 4 }
+          ]
+        },
+        timingMetrics: { wallTimeInMs: '42000' }
+      }
+    },
+    { id: { buildFinished: {} }, finished: { overallSuccess: false, exitCode: { name: 'BUILD_FAILURE', code: 1 } } }
+  ];
+
+  const summary = summarizeBuildEvents(events);
+  const metrics = toBuildMetrics(summary);
+
+  if (summary.resultsUrl !== 'https://app.nativelink.com/a/x/build/abc-123') {
+    throw new Error(`Unexpected results URL: ${summary.resultsUrl}`);
+  }
+  if (summary.exitCode !== 1 || summary.failedTargets[0]?.label !== '//:broken') {
+    throw new Error('Should report the failure and failed target');
+  }
+  if (summary.flakyTests[0] !== '//:flaky_test') {
+    throw new Error('Should report flaky tests');
+  }
+  if (metrics.totalTime !== 42 || metrics.cacheHitRate !== 0.6) {
+    throw new Error('Should derive totalTime and cacheHitRate');
+  }
+});
+
+await testAsync('Derive per-mnemonic metrics from BEP and target the dominant action type', async () => {
+  const bep = [
+    { id: { actionCompleted: { label: '//:bad' } }, action: { success: false, label: '//:bad', type: 'CppCompile' } },
+    {
+      id: { buildMetrics: {} },
+      buildMetrics: {
+        actionSummary: {
+          actionsExecuted: '20',
+          runnerCount: [
+            { name: 'total', count: 20 },
+            { name: 'remote cache hit', count: 5 },
+            { name: 'remote', count: 12 },
+            { name: 'worker', count: 3 }
+          ],
+          actionData: [
+            { mnemonic: 'CppCompile', actionsExecuted: '15', userTime: '90s', systemTime: '10s' },
+            { mnemonic: 'Javac', actionsExecuted: '5', userTime: '20s' }
+          ]
+        },
+        networkMetrics: { systemNetworkStats: { bytesSent: '1000', bytesRecv: '5000' } },
+        workerMetrics: [{ workerIds: [1, 2], mnemonic: 'Javac' }]
+      }
+    }
+  ].map(event => JSON.stringify(event)).join('\n');
+
+  const summary = summarizeBuildEvents(readBuildEvents(bep));
+  const metrics = toBuildMetrics(summary);
+  if (metrics.totalActions !== 20 || metrics.cacheHits !== 5 || metrics.cacheMisses !== 15 || metrics.failedActions !== 1) {
+    throw new Error(`Unexpected action counts: ${JSON.stringify(metrics)}`);
+  }
+  if (summary.hostBytesSent !== 1000 || metrics.bytesUploaded !== undefined || metrics.networkTransferSize !== undefined || metrics.workerCount !== 2) {
+    throw new Error('Host network counters should not count as cache transfer; workers should be counted');
+  }
+  const cpp = metrics.mnemonics[0];
+  if (cpp.mnemonic !== 'CppCompile' || cpp.totalTime !== 100 || metrics.mnemonics[1].workers !== 2) {
+    throw new Error(`Unexpected mnemonic breakdown: ${JSON.stringify(metrics.mnemonics)}`);
+  }
+
+  const { text, structuredContent } = await analyzeBuildPerformance({ bepData: bep, targetOptimization: 'speed' }, new NativelinkAPI({}));
+  if (!text.includes('CppCompile (83% of the build)') || !text.includes('1 of 20 actions failed')) {
+    throw new Error('Recommendations should target the dominant mnemonic and report failures');
+  }
+  if (structuredContent.score.cacheEfficiency !== 25) {
+    throw new Error('Scores should use the derived cache hit rate');
+  }
+});
+
+await testAsync('Record builds in the metrics history and find the first regression', async () => {
+  const history = new MetricsHistory(join(mkdtempSync(join(tmpdir(), 'nativelink-history-')), 'history.jsonl'));
+  const api = new NativelinkAPI({});
+  const hitRates = [0.9, 0.88, 0.91, 0.9, 0.89, 0.6, 0.58];
+
+  for (const [i, cacheHitRate] of hitRates.entries()) {
+    const bep = [
+      { id: { started: {} }, started: { uuid: `build-${i}`, command: 'build' } },
+      { id: { optionsParsed: {} }, optionsParsed: { explicitCmdLine: ['--config=ci', '--remote_header=x-nativelink-api-key=secret'] } },
+      { id: { workspaceStatus: {} }, workspaceStatus: { item: [{ key: 'BUILD_SCM_REVISION', value: `c0ffee${i}` }] } },
+      { id: { buildMetrics: {} }, buildMetrics: { timingMetrics: { wallTimeInMs: '60000' } } }
+    ].map(event => JSON.stringify(event)).join('\n');
+    const { text } = await analyzeBuildPerformance({ bepData: bep, metrics: { cacheHitRate }, recordHistory: true }, api, history);
+    if (i === 0 && !text.includes('Recorded build build-0 at c0ffee0')) {
+      throw new Error('Analysis should say where the build was recorded');
+    }
+  }
+
+  const records = history.read();
+  if (records.length !== 7 || records[0].flags[1] !== '--remote_header=<redacted>') {
+    throw new Error('Builds should be recorded with credentials redacted');
+  }
+
+  const trends = analyzeBuildTrends(AnalyzeBuildTrendsSchema.parse({}), history);
+  if (!trends.includes('**Cache hit rate** 90.0% → 58.0%') || !trends.includes('first seen in build #6') || !trends.includes('`c0ffee5`')) {
+    throw new Error(`Should point at the first regressed build:\n${trends}`);
+  }
+  if (trends.includes('**Wall time**')) {
+    throw new Error('An unchanged wall time is not a regression');
+  }
+});
+
+test('Compare two builds and list the actions that changed the most', () => {
+  const profile = (compileDur, compileCat, linkDur) => JSON.stringify({
+    traceEvents: [
+      { name: 'Compiling a.cc', cat: 'action processing', ph: 'X', ts: 0, dur: compileDur, pid: 1, tid: 2, args: { mnemonic: 'CppCompile' } },
+      { name: 'spawn', cat: compileCat, ph: 'X', ts: 100, dur: compileDur - 200, pid: 1, tid: 2 },
+      { name: 'Linking a', cat: 'action processing', ph: 'X', ts: compileDur, dur: linkDur, pid: 1, tid: 3, args: { mnemonic: 'CppLink' } }
+    ]
+  });
+
+  const report = compareBuilds(CompareBuildsSchema.parse({
+    baseline: { label: 'local', profileData: profile(8000000, 'local action execution', 1000000), metrics: { cacheHitRate: 0.2 } },
+    candidate: { label: 'nativelink', profileData: profile(2000000, 'remote action execution', 1000000), metrics: { cacheHitRate: 0.8 } }
+  }));
+
+  if (!report.includes('# Build Comparison: local → nativelink') || !report.includes('**Verdict:** ✅ Improved')) {
+    throw new Error(`Should report an improvement:\n${report}`);
+  }
+  if (!report.includes('| Cache hit rate | 20.0% | 80.0% | +60.0 pts ✅ |')) {
+    throw new Error('Should show the cache hit rate delta in points');
+  }
+  if (!report.includes('| Compiling a.cc | CppCompile | 8.00s | 2.00s | -6.00s |') || report.includes('| Linking a |')) {
+    throw new Error('Should list only the actions whose duration changed');
+  }
+});
+
+// Test .bazelrc validation
+test('Validate .bazelrc flags problems with line numbers', () => {
+  const report = validateBazelrc({
+    bazelrc: [
+      'build --remote_cache=grpcs://cas.example.com',
+      'build --experimental_remote_cache_compression',
+      'build:remote --remote_executor=grpcs://scheduler.example.com:443'
+    ].join('\n')
+  });
+
+  if (!report.includes('`.bazelrc:1` `--remote_cache` uses grpcs://')) {
+    throw new Error('Should flag missing remote header on line 1');
+  }
+  if (!report.includes('`.bazelrc:2` `--experimental_remote_cache_compression` is deprecated')) {
+    throw new Error('Should flag deprecated flag on line 2');
+  }
+
+  const java = validateBazelrc({ bazelrc: 'build --javabase=@local_jdk//:jdk' });
+  if (!java.includes('no drop-in replacement') || !java.includes('local_java_repository') || java.includes('java_runtime_version=@local_jdk')) {
+    throw new Error('--javabase should get a migration hint, not a rewrite');
+  }
+});
+
+test('Validate .bazelrc accepts get-bazel-config output for every credential mode', () => {
+  for (const credentials of ['bazelrc-user', 'credential-helper', 'env']) {
+    const report = validateBazelrc({ bazelrc: generateBazelConfig({ projectType: 'cpp', credentials }) });
+    if (!report.includes('✅ Valid')) {
+      throw new Error(`${credentials} config should validate:\n${report}`);
+    }
+    const noted = report.includes('gets its credentials from `%workspace%/.bazelrc.user`');
+    if (noted !== (credentials === 'bazelrc-user')) {
+      throw new Error(`${credentials}: only the .bazelrc.user try-import should be noted as the credential source`);
+    }
+  }
+});
+
+test('Tool registry derives JSON Schema from zod', () => {
+  const names = TOOLS.map(tool => tool.name);
+  if (new Set(names).size !== names.length) {
+    throw new Error('Tool names must be unique');
+  }
+
+  const deployment = TOOLS.find(tool => tool.name === 'generate-deployment-config');
+  const schema = toToolInputSchema(deployment.schema);
+  if (JSON.stringify(schema.required) !== JSON.stringify(['platform', 'scale'])) {
+    throw new Error(`Unexpected required fields: ${schema.required}`);
+  }
+  if (schema.properties.includeServerConfig.default !== true || !schema.properties.platform.enum.includes('aws')) {
+    throw new Error('Defaults and enums should be carried over');
+  }
+
+  for (const tool of TOOLS) {
+    const { properties } = toToolInputSchema(tool.schema);
+    for (const [key, property] of Object.entries(properties)) {
+      if (!property.description) {
+        throw new Error(`${tool.name}.${key} has no description`);
+      }
+    }
+  }
+});
+
+test('Docs resources and prompts', () => {
+  const uris = listDocResources().map(resource => resource.uri);
+  if (!uris.includes('nativelink://docs/setup') || !uris.includes('nativelink://docs/stores')) {
+    throw new Error(`Unexpected resources: ${uris}`);
+  }
+
+  const prompt = findPrompt('diagnose-cache-misses');
+  const text = prompt.build(prompt.schema.parse({
+    baselineLogPath: '/tmp/a.json',
+    candidateLogPath: '/tmp/b.json'
+  }));
+  if (!text.includes('`analyze-cache-misses`') || !text.includes('"candidateLogPath": "/tmp/b.json"')) {
+    throw new Error('Prompt should pre-fill the analyze-cache-misses call');
+  }
+
+  const sizing = findPrompt('size-cluster');
+  if (!sizing.build(sizing.schema.parse({ platform: 'gcp', engineers: '5' })).includes('"scale": "small"')) {
+    throw new Error('Small teams should get a small cluster');
+  }
+  if (PROMPTS.length !== 3) {
+    throw new Error('Expected three prompts');
+  }
+});
+
+test('Search docs returns whole sections within the token budget', () => {
+  const result = searchNativelinkDocs({
+    query: 'how do I configure S3 store eviction',
+    maxResults: 5,
+    maxTokens: 400
+  });
+
+  if (!result.includes('Source: nativelink://docs/stores#object-store-eviction')) {
+    throw new Error('Object store eviction should be the top match');
+  }
+  if (result.includes('[Response truncated')) {
+    throw new Error('Sections should not be cut mid-text');
+  }
+  if (!result.includes('More matches')) {
+    throw new Error('Sections over the budget should be listed by anchor');
+  }
+});
+
+await testAsync('Docs are cached on disk and revalidated with ETags', async () => {
+  const requests = [];
+  const docsServer = createServer((req, res) => {
+    requests.push(req.headers['if-none-match']);
+    if (req.headers['if-none-match'] === '"v1"') {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' });
+    res.end(JSON.stringify({ content: '# Live Setup', version: '1.0.0', lastUpdated: '2024-01-01T00:00:00Z' }));
+  });
+  await new Promise(resolve => docsServer.listen(0, '127.0.0.1', resolve));
+
+  const cacheDir = mkdtempSync(join(tmpdir(), 'nativelink-docs-'));
+  const nativelinkUrl = `http://127.0.0.1:${docsServer.address().port}`;
+  const strict = { nativelinkUrl, cacheDir, docsTtlSeconds: 0, staleWhileRevalidate: false };
+
+  try {
+    const live = await new NativelinkAPI({ nativelinkUrl, cacheDir }).fetchDocumentation('setup');
+    const fresh = await new NativelinkAPI({ nativelinkUrl, cacheDir }).fetchDocumentation('setup');
+    const revalidated = await new NativelinkAPI(strict).fetchDocumentation('setup');
+
+    if (live.source !== 'live' || fresh.source !== 'cached' || fresh.content !== '# Live Setup') {
+      throw new Error(`Expected live then cached, got ${live.source} then ${fresh.source}`);
+    }
+    if (requests.length !== 2 || requests[1] !== '"v1"' || revalidated.source !== 'cached' || revalidated.stale) {
+      throw new Error('A stale entry should be revalidated with If-None-Match');
+    }
+
+    const swr = new NativelinkAPI({ nativelinkUrl, cacheDir, docsTtlSeconds: 0 });
+    const stale = await swr.fetchDocumentation('setup');
+    await swr.settle();
+    if (!stale.stale || requests.length !== 3) {
+      throw new Error('Stale-while-revalidate should answer from cache and refresh in the background');
+    }
+  } finally {
+    docsServer.closeAllConnections();
+    await new Promise(resolve => docsServer.close(resolve));
+  }
+
+  const offline = await new NativelinkAPI(strict).fetchDocumentation('setup');
+  const bundled = await new NativelinkAPI({ ...strict, cacheDir: mkdtempSync(join(tmpdir(), 'nativelink-docs-')) })
+    .fetchDocumentation('setup');
+  if (offline.source !== 'cached' || offline.content !== '# Live Setup' || !offline.stale) {
+    throw new Error('Offline requests should fall back to the stale cache');
+  }
+  if (bundled.source !== 'bundled' || !bundled.content.includes('Setup Guide')) {
+    throw new Error('With nothing cached, offline requests should use the bundled docs');
+  }
+});
+
+await testAsync('API-suggested flags are spelled for the Bazel version', async () => {
+  const apiServer = createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      analysis: 'From the API',
+      suggestedConfig: { flags: ['--remote_cache_compression', { flag: '--remote_build_event_upload=minimal' }, '--jobs=200'] }
+    }));
+  });
+  await new Promise(resolve => apiServer.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const api = new NativelinkAPI({ nativelinkUrl: `http://127.0.0.1:${apiServer.address().port}`, anthropicKey: 'test-key' });
+    const result = await api.analyzePerformance({ totalTime: 100, cacheHitRate: 0.5 }, { targetOptimization: 'speed', bazelMajor: 5 });
+    const flags = result.suggestedFlags.map(f => f.flag);
+
+    if (result.source !== 'api' || flags.join(' ') !== '--experimental_remote_cache_compression --jobs=200') {
+      throw new Error(`Expected Bazel 5 spellings without unsupported flags, got ${flags.join(' ')}`);
+    }
+  } finally {
+    apiServer.closeAllConnections();
+    await new Promise(resolve => apiServer.close(resolve));
+  }
+});
+
+await testAsync('API client retries 5xx and 429 and maps error bodies', async () => {
+  const requests = [];
+  const apiServer = createServer((req, res) => {
+    requests.push({ url: req.url, version: req.headers['x-api-version'] });
+    if (req.url.startsWith('/v1/denied')) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'INVALID_API_KEY', message: 'API key revoked' } }));
+    } else if (requests.length === 1) {
+      res.writeHead(503);
+      res.end();
+    } else if (requests.length === 2) {
+      res.writeHead(429, { 'Retry-After': '0' });
+      res.end(JSON.stringify({ error: { code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down' } }));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '97' });
+      res.end(JSON.stringify({ ok: true }));
+    }
+  });
+  await new Promise(resolve => apiServer.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const client = new ApiClient({
+      baseUrl: `http://127.0.0.1:${apiServer.address().port}`,
+      versionInPath: true,
+      retryBaseDelayMs: 1
+    });
+
+    const response = await client.request({ path: '/docs', query: { topic: 'setup' } });
+    if (!response.data.ok || requests.length !== 3 || client.rateLimit.remaining !== 97) {
+      throw new Error(`Expected success on the third attempt, got ${requests.length} requests`);
+    }
+    if (requests[0].url !== '/v1/docs?topic=setup' || requests.some(r => r.version !== '1')) {
+      throw new Error('Requests should carry the API version in the path and header');
+    }
+
+    const error = await client.request({ path: '/denied' }).catch(e => e);
+    if (!(error instanceof ApiAuthError) || error.code !== 'INVALID_API_KEY' || requests.length !== 4) {
+      throw new Error('401 should fail once with the API error code');
+    }
+    if (error.toMcpError().code !== -32600 || !error.toMcpError().message.includes('API key revoked')) {
+      throw new Error('Auth errors should map to InvalidRequest');
+    }
+  } finally {
+    apiServer.closeAllConnections();
+    await new Promise(resolve => apiServer.close(resolve));
+  }
+});
+
+await testAsync('HTTP transport opens sessions, checks their key and serves legacy SSE', async () => {
+  const port = await new Promise(resolve => {
+    const probe = createServer().listen(0, () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+  const configDir = mkdtempSync(join(tmpdir(), 'nativelink-http-'));
+  const child = spawn(process.execPath, ['dist/index.js', '--transport', 'http', '--port', String(port)], {
+    env: { PATH: process.env.PATH, XDG_CONFIG_HOME: configDir, XDG_CACHE_HOME: configDir },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  try {
+    await new Promise((resolve, reject) => {
+      child.stdout.on('data', chunk => chunk.toString().includes('listening') && resolve());
+      child.on('exit', code => reject(new Error(`Server exited with ${code}`)));
+    });
+    const base = `http://localhost:${port}`;
+    const initialize = id => ({
+      jsonrpc: '2.0', id, method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    });
+    const post = (path, body, headers = {}) => fetch(base + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body)
+    });
+
+    const opened = await post('/mcp', initialize(1), { Authorization: 'Bearer key-one' });
+    const sessionId = opened.headers.get('mcp-session-id');
+    if (opened.status !== 200 || !sessionId || !(await opened.text()).includes('"serverInfo"')) {
+      throw new Error(`initialize should return an Mcp-Session-Id header, got ${opened.status}`);
+    }
+    const wrongKey = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, {
+      Authorization: 'Bearer key-two',
+      'Mcp-Session-Id': sessionId
+    });
+    if (wrongKey.status !== 403) {
+      throw new Error(`A different API key should get 403, got ${wrongKey.status}`);
+    }
+    const noKey = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+    if (noKey.status !== 401) {
+      throw new Error(`A request without the session's API key should get 401, got ${noKey.status}`);
+    }
+
+    // fetch cannot set Host, so the rebinding checks go through http.request.
+    const statusWith = headers => new Promise((resolve, reject) => {
+      request({ port, path: '/sse', headers }, res => {
+        res.destroy();
+        resolve(res.statusCode);
+      }).on('error', reject).end();
+    });
+    const rebound = await statusWith({ Host: `attacker.example:${port}` });
+    const crossOrigin = await statusWith({ Host: `localhost:${port}`, Origin: 'https://attacker.example' });
+    if (rebound !== 403 || crossOrigin !== 403) {
+      throw new Error(`Foreign Host and Origin headers should get 403, got ${rebound} and ${crossOrigin}`);
+    }
+
+    const stream = await fetch(`${base}/sse`, { headers: { Accept: 'text/event-stream' } });
+    const reader = stream.body.getReader();
+    let events = '';
+    const readUntil = async text => {
+      while (!events.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error(`SSE stream ended before ${text}`);
+        events += new TextDecoder().decode(value);
+      }
+    };
+    await readUntil('\n\n');
+    const endpoint = events.match(/data: (\/messages\?sessionId=[^\s]+)/)?.[1];
+    if (!endpoint) throw new Error('/sse should announce the /messages endpoint');
+    const accepted = await post(endpoint, initialize(3));
+    await readUntil('"serverInfo"');
+    if (accepted.status !== 202) {
+      throw new Error(`/messages should accept the request, got ${accepted.status}`);
+    }
+    await reader.cancel();
+  } finally {
+    child.kill();
+  }
+});
+
+await testAsync('Profile settings apply unless a flag or env var sets them', async () => {
+  const docsServer = createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: '"v1"' });
+    res.end(JSON.stringify({ content: '# Live Setup' }));
+  });
+  await new Promise(resolve => docsServer.listen(0, '127.0.0.1', resolve));
+  const dir = mkdtempSync(join(tmpdir(), 'nativelink-profile-'));
+  writeFileSync(join(dir, 'config.toml'), [
+    'defaultProfile = "strict"',
+    '[profiles.strict]',
+    `apiUrl = "http://127.0.0.1:${docsServer.address().port}"`,
+    'staleWhileRevalidate = false'
+  ].join('\n'));
+
+  // Asks for the setup docs twice; with a zero TTL the second answer is stale unless revalidated first.
+  const secondAnswer = async extraArgs => {
+    const child = spawn(process.execPath, ['dist/index.js', '--config', join(dir, 'config.toml'), '--docs-ttl', '0', ...extraArgs], {
+      env: { PATH: process.env.PATH, NATIVELINK_CACHE_DIR: mkdtempSync(join(dir, 'cache-')) },
+      stdio: ['pipe', 'pipe', 'inherit']
+    });
+    let output = '';
+    const response = id => new Promise((resolve, reject) => {
+      const onData = chunk => {
+        output += chunk;
+        const line = output.split('\n').find(l => l.includes(`"id":${id}`));
+        if (line) {
+          child.stdout.off('data', onData);
+          resolve(JSON.parse(line));
+        }
+      };
+      child.stdout.on('data', onData);
+      child.on('exit', code => reject(new Error(`Server exited with ${code}`)));
+    });
+    const send = message => child.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+    const getDocs = id => send({ id, method: 'tools/call', params: { name: 'get-nativelink-docs', arguments: { topic: 'setup' } } });
+
+    try {
+      send({ id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } } });
+      await response(1);
+      send({ method: 'notifications/initialized' });
+      getDocs(2);
+      await response(2);
+      getDocs(3);
+      return (await response(3)).result.content[0].text;
+    } finally {
+      child.kill();
+    }
+  };
+
+  try {
+    const fromProfile = await secondAnswer([]);
+    const fromFlag = await secondAnswer(['--no-stale-while-revalidate']);
+    if (fromProfile.includes('past its TTL') || fromFlag.includes('past its TTL')) {
+      throw new Error(`The profile's staleWhileRevalidate = false should apply without the flag:\n${fromProfile}`);
+    }
+  } finally {
+    docsServer.closeAllConnections();
+    await new Promise(resolve => docsServer.close(resolve));
+  }
+});
+
+await testAsync('Invalid tool arguments are reported once, without a doubled error prefix', async () => {
+  const child = spawn(process.execPath, ['dist/index.js'], {
+    env: { PATH: process.env.PATH, NATIVELINK_CACHE_DIR: mkdtempSync(join(tmpdir(), 'nativelink-errors-')) },
+    stdio: ['pipe', 'pipe', 'ignore']
+  });
+  let output = '';
+  const response = id => new Promise((resolve, reject) => {
+    const onData = chunk => {
+      output += chunk;
+      const line = output.split('\n').find(l => l.includes(`"id":${id}`));
+      if (line) {
+        child.stdout.off('data', onData);
+        resolve(JSON.parse(line));
+      }
+    };
+    child.stdout.on('data', onData);
+    child.on('exit', code => reject(new Error(`Server exited with ${code}`)));
+  });
+  const send = message => child.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+
+  try {
+    send({ id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } } });
+    await response(1);
+    send({ method: 'notifications/initialized' });
+    send({ id: 2, method: 'tools/call', params: { name: 'validate-bazelrc', arguments: { bazelrc: 5 } } });
+    const { error } = await response(2);
+    // Clients add the `MCP error -32602: ` prefix themselves, so it must not be on the wire.
+    if (error?.code !== -32602 || error.message !== 'Invalid parameters: bazelrc: Expected string, received number') {
+      throw new Error(`Unexpected error: ${JSON.stringify(error)}`);
+    }
+  } finally {
+    child.kill();
+  }
+});
+
 // Test API fallback
-test('API returns offline docs on failure', async () => {
+await testAsync('API returns offline docs on failure', async () => {
   const api = new NativelinkAPI({});
   const docs = await api.fetchDocumentation('setup');
 
-  if (!docs.includes('Nativelink Setup Guide')) {
+  if (!docs.content.includes('Nativelink Cloud Setup Guide')) {
     throw new Error('Should return offline documentation');
   }
+
+  const withContext = await api.fetchDocumentation('setup', 'prometheus monitoring eviction');
+  if (!withContext.content.startsWith('## Closest match for "prometheus monitoring eviction"') || !withContext.content.includes('Nativelink Cloud Setup Guide')) {
+    throw new Error('Context should lead with the closest bundled section');
+  }
+  const unknown = await api.fetchDocumentation('no-such-topic');
+  if (!unknown.fallback || docs.fallback) {
+    throw new Error('Only an unknown topic should be marked as a fallback');
+  }
 });
 
 // Summary